@@ -124,34 +124,6 @@ const UNISWAP_V2_ROUTER_ABI = [
   }
 ];
 
-// ERC20 Token ABI (simplified)
-const ERC20_ABI = [
-  {
-    "constant": true,
-    "inputs": [{"name": "_owner", "type": "address"}],
-    "name": "balanceOf",
-    "outputs": [{"name": "balance", "type": "uint256"}],
-    "type": "function"
-  },
-  {
-    "constant": false,
-    "inputs": [
-      {"name": "_spender", "type": "address"},
-      {"name": "_value", "type": "uint256"}
-    ],
-    "name": "approve",
-    "outputs": [{"name": "", "type": "bool"}],
-    "type": "function"
-  },
-  {
-    "constant": true,
-    "inputs": [],
-    "name": "decimals",
-    "outputs": [{"name": "", "type": "uint8"}],
-    "type": "function"
-  }
-];
-
 // Trading configuration
 interface TradingConfig {
   userId: string;
@@ -441,21 +413,12 @@ class DexTradingBot {
    */
   private async getTokenBalance(tokenAddress: Address): Promise<bigint> {
     try {
-      const result = await this.config.sdk.readContract({
+      const balance = await this.config.sdk.tokens.getTokenBalance({
         userId: this.config.userId,
-        contract: {
-          address: tokenAddress,
-          abi: ERC20_ABI,
-          chainId: 1
-        },
-        functionName: 'balanceOf',
-        args: [await this.getUserAddress()]
+        token: tokenAddress,
+        chainId: 1
       });
-
-      if (result.success) {
-        return result.data as bigint;
-      }
-      return 0n;
+      return balance.raw;
     } catch (error) {
       console.error('❌ Error getting token balance:', error);
       return 0n;
@@ -467,15 +430,13 @@ class DexTradingBot {
    */
   private async approveToken(tokenAddress: Address, spender: Address, amount: bigint) {
     try {
-      const result = await this.config.sdk.callContract({
+      // Resets a non-zero allowance first for tokens that require it (e.g. USDT)
+      const result = await this.config.sdk.tokens.approve({
         userId: this.config.userId,
-        contract: {
-          address: tokenAddress,
-          abi: ERC20_ABI,
-          chainId: 1
-        },
-        functionName: 'approve',
-        args: [spender, amount]
+        token: tokenAddress,
+        spender,
+        amount,
+        chainId: 1
       });
 
       if (result.success) {
@@ -586,6 +547,7 @@ async function runDexTradingBot() {
   // Initialize SDK
   const sdk = new WalletConnectSDK({
     projectId: 'YOUR_PROJECT_ID',
+    nonceManagement: true, // approve and swap go out back to back with sequential nonces
     timeouts: {
       connection: 60000,
       transaction: 120000,
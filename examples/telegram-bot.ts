@@ -1,4 +1,5 @@
 import { WalletConnectSDK } from '../src/core/WalletConnectSDK';
+import { TimeoutError } from '../src/utils/TimeoutManager';
 import TelegramBot from 'node-telegram-bot-api';
 import dotenv from 'dotenv';
 
@@ -223,44 +224,30 @@ Use /help for all available commands
    * Monitor connection status
    */
   private async monitorConnection(walletUserId: string, chatId: number) {
-    const maxAttempts = Math.ceil(300000 / 5000); // 5 minutes / 5 seconds
-    let attempts = 0;
+    console.log(`👀 Waiting for wallet approval for ${walletUserId}`);
 
-    console.log(`👀 Monitoring connection for ${walletUserId}`);
-
-    while (attempts < maxAttempts) {
-      try {
-        const isConnected = await this.sdk.isConnected(walletUserId);
-        
-        if (isConnected) {
-          const accounts = await this.sdk.getAccounts(walletUserId);
-          const balance = await this.sdk.getBalance(walletUserId);
-          
-          await this.bot.sendMessage(chatId, 
-            `✅ Connected successfully!\n\n` +
-            `👤 Address: ${accounts[0]}\n` +
-            `💰 Balance: ${this.formatEther(balance)} ETH\n\n` +
-            `Use /balance to check balances\n` +
-            `Use /send to send transactions\n` +
-            `Use /contract for smart contract interactions`
-          );
-          
-          // Remove from pending connections
-          this.pendingConnections.delete(walletUserId);
-          return;
-        }
+    try {
+      const session = await this.sdk.waitForApproval(walletUserId);
+      const balance = await this.sdk.getBalance(walletUserId);
 
-        await new Promise(resolve => setTimeout(resolve, 5000));
-        attempts++;
-      } catch (error) {
-        console.error('❌ Connection monitoring error:', error);
-        break;
+      await this.bot.sendMessage(chatId, 
+        `✅ Connected successfully!\n\n` +
+        `👤 Address: ${session.address}\n` +
+        `💰 Balance: ${this.formatEther(balance)} ETH\n\n` +
+        `Use /balance to check balances\n` +
+        `Use /send to send transactions\n` +
+        `Use /contract for smart contract interactions`
+      );
+    } catch (error) {
+      if (error instanceof TimeoutError) {
+        await this.bot.sendMessage(chatId, '⏰ Connection timed out. Please try /connect again.');
+      } else {
+        console.error('❌ Connection approval error:', error);
+        await this.bot.sendMessage(chatId, '❌ Connection was rejected. Please try /connect again.');
       }
+    } finally {
+      this.pendingConnections.delete(walletUserId);
     }
-
-    // Connection timed out
-    await this.bot.sendMessage(chatId, '⏰ Connection timed out. Please try /connect again.');
-    this.pendingConnections.delete(walletUserId);
   }
 
   /**
@@ -1,18 +1,37 @@
 import { SignClient } from '@walletconnect/sign-client';
+import { parseUri, formatMessage, buildAuthObject } from '@walletconnect/utils';
+import { AuthTypes } from '@walletconnect/types';
 import { 
   createPublicClient, 
   http, 
+  defineChain,
   Address, 
+  Chain,
   Hex,
+  PublicClient,
+  TransactionReceipt,
+  BaseError,
+  RawContractError,
+  decodeErrorResult,
+  toHex,
+  WaitForTransactionReceiptTimeoutError,
+  TimeoutError as RpcTimeoutError,
   encodeFunctionData,
-  decodeFunctionData
+  decodeFunctionData,
+  decodeFunctionResult,
+  decodeEventLog,
+  AbiEvent,
+  Log
 } from 'viem';
-import { mainnet } from 'viem/chains';
+import * as viemChains from 'viem/chains';
+import { createSiweMessage, generateSiweNonce, parseSiweMessage } from 'viem/siwe';
 import * as qrcode from 'qrcode';
+import { v4 as uuidv4 } from 'uuid';
 
 import {
   WalletConnectSDKConfig,
   UserSession,
+  SessionInfo,
   ConnectionRequest,
   ConnectionResponse,
   TransactionRequest,
@@ -20,6 +39,19 @@ import {
   SignMessageRequest,
   SignTypedDataRequest,
   SignResponse,
+  SignatureVerification,
+  VerifyMessageRequest,
+  VerifyTypedDataRequest,
+  SolanaSignMessageRequest,
+  SolanaTransactionRequest,
+  SolanaSignResponse,
+  ChainSwitchResponse,
+  ChainConfig,
+  SiweRequest,
+  SiweIdentity,
+  SiweResponse,
+  AuthenticateRequest,
+  AuthenticateResponse,
   WalletConnectEvent,
   Logger,
   StorageAdapter,
@@ -29,6 +61,8 @@ import {
   SDKOptions,
   ContractCallRequest,
   ContractCallResponse,
+  ContractConfig,
+  SimulationResult,
   ContractReadRequest,
   ContractReadResponse,
   FunctionEncodeRequest,
@@ -36,11 +70,133 @@ import {
   FunctionDecodeRequest,
   FunctionDecodeResponse,
   TimeoutConfig,
+  TransactionStatus,
+  TransactionRecord,
+  TransactionRecordType,
+  FeeSpeed,
+  FeeSuggestion,
   WalletDeepLink,
-  WalletMetadata
+  WalletMetadata,
+  SignClientMode,
+  NetworkConfig,
+  SDKModuleContext,
+  BatchCall,
+  BatchCallResult,
+  BatchCallStatus,
+  BatchMode,
+  BatchStatus,
+  SendCallsOptions,
+  SendCallsResponse,
+  ContractLogsRequest,
+  ContractLogsResponse,
+  ContractEventLog,
+  WatchContractEventsRequest
 } from '../types';
+import { QueryOptions, QueryResult } from '../types/database';
 import { WalletRegistry } from '../utils/WalletRegistry';
-import { TimeoutManager, TimeoutError } from '../utils/TimeoutManager';
+import { SOLANA_CHAINS, SOLANA_METHODS, SolanaUtils } from '../utils/Solana';
+import { TimeoutManager, TimeoutError, TimeoutUtils } from '../utils/TimeoutManager';
+import { NonceManager } from '../utils/NonceManager';
+import { FeeEstimator } from '../utils/FeeEstimator';
+import { SignatureVerifier } from '../utils/SignatureVerifier';
+import { TypedDataUtils } from '../utils/TypedData';
+import { TokenModule } from '../modules/TokenModule';
+import { NftModule } from '../modules/NftModule';
+import { DatabaseFactory } from '../storage/DatabaseFactory';
+
+// Solidity panic codes (Panic(uint256)) and what triggers them
+const PANIC_REASONS: Record<number, string> = {
+  0x01: 'assert condition failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'invalid storage byte array',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to uninitialized function'
+};
+
+// Default WalletConnect methods for the eip155 namespace
+const EVM_METHODS = [
+  'eth_sendTransaction',
+  'eth_signTransaction',
+  'eth_sign',
+  'personal_sign',
+  'eth_signTypedData'
+];
+
+// Requested on top, wallets without them can still approve the session
+const EVM_OPTIONAL_METHODS = [
+  'eth_signTypedData_v4',
+  'wallet_getCapabilities',
+  'wallet_sendCalls',
+  'wallet_getCallsStatus'
+];
+
+// How often wallet_getCallsStatus is polled while waiting for a batch
+const CALLS_STATUS_POLL_INTERVAL = 2000;
+
+// Storage key prefix of contract event cursors, the block range of one eth_getLogs
+// call and the default time between polls
+const CONTRACT_EVENT_CURSOR_PREFIX = 'contract-events:';
+const LOG_BLOCK_RANGE = 1000n;
+const DEFAULT_EVENT_POLL_INTERVAL = 4000;
+
+// Last block a watcher has fully processed, persisted so it resumes after a restart
+interface ContractEventCursor {
+  chainId: number;
+  address: Address;
+  eventName?: string;
+  lastBlock: string;
+  updatedAt: number;
+}
+
+// A running watchContractEvents poller
+interface ContractEventWatcher {
+  watchId: string;
+  chainId: number;
+  request: WatchContractEventsRequest;
+  nextBlock?: bigint;
+  timer?: NodeJS.Timeout;
+  stopped: boolean;
+}
+
+// The approval of the latest connect() for a user, keyed by its pairing topic
+interface PendingApproval {
+  pairingTopic: string;
+  promise: Promise<SessionInfo>;
+}
+
+// transaction_failed reason of a wallet batch call that settled without confirming.
+// Only sequential batches skip calls, the entry keeps the map total
+const BATCH_FAILURE_REASONS: Record<Exclude<BatchCallStatus, 'pending' | 'confirmed'>, 'reverted' | 'dropped'> = {
+  reverted: 'reverted',
+  failed: 'dropped',
+  skipped: 'dropped'
+};
+
+// A batch sent through sendCalls, kept so getCallsStatus can answer for either mode
+interface CallBatch {
+  userId: string;
+  chainId: number;
+  mode: BatchMode;
+  atomic: boolean;
+  walletBatchId?: string;
+  calls: BatchCallResult[];
+  recordIds: (string | undefined)[];
+}
+
+// Storage key prefix and default lifetime for Sign-In with Ethereum nonces
+const SIWE_NONCE_PREFIX = 'siwe-nonce:';
+const DEFAULT_SIWE_EXPIRY = 10 * 60 * 1000;
+
+// What is stored for an issued SIWE nonce until it is consumed
+interface SiweNonceRecord {
+  userId: string;
+  domain: string;
+  expiresAt: number;
+}
 
 // Simple Event Bus Implementation
 class EventBus {
@@ -111,106 +267,93 @@ class DefaultLogger implements Logger {
 // Simple Memory Storage Implementation
 class MemoryStorage implements StorageAdapter {
   private storage: Map<string, any> = new Map();
+  private expiries: Map<string, number> = new Map();
 
   async getItem<T = string>(key: string): Promise<T | undefined> {
+    this.evictExpired();
     return this.storage.get(key);
   }
 
-  async setItem<T = string>(key: string, value: T): Promise<void> {
+  // ttl is in seconds
+  async setItem<T = string>(key: string, value: T, ttl?: number): Promise<void> {
+    this.evictExpired();
     this.storage.set(key, value);
+    if (ttl) {
+      this.expiries.set(key, Date.now() + ttl * 1000);
+    } else {
+      this.expiries.delete(key);
+    }
   }
 
   async removeItem(key: string): Promise<void> {
     this.storage.delete(key);
+    this.expiries.delete(key);
   }
 
   async getKeys(): Promise<string[]> {
+    this.evictExpired();
     return Array.from(this.storage.keys());
   }
 
   async getEntries<T = string>(): Promise<[string, T][]> {
+    this.evictExpired();
     return Array.from(this.storage.entries());
   }
-}
-
-// Simple Database Implementation
-class SimpleDatabase implements DatabaseAdapter {
-  private sessions: Map<string, UserSession> = new Map();
-  private isConnectedFlag = false;
-
-  async connect(): Promise<void> {
-    this.isConnectedFlag = true;
-  }
-
-  async disconnect(): Promise<void> {
-    this.isConnectedFlag = false;
-  }
-
-  isConnected(): boolean {
-    return this.isConnectedFlag;
-  }
-
-  async saveSession(session: UserSession): Promise<void> {
-    this.sessions.set(session.userId, session);
-  }
-
-  async getSession(userId: string): Promise<UserSession | null> {
-    return this.sessions.get(userId) || null;
-  }
-
-  async getAllSessions(): Promise<UserSession[]> {
-    return Array.from(this.sessions.values());
-  }
-
-  async updateSession(userId: string, updates: Partial<UserSession>): Promise<void> {
-    const session = this.sessions.get(userId);
-    if (session) {
-      Object.assign(session, updates);
-      this.sessions.set(userId, session);
-    }
-  }
-
-  async deleteSession(userId: string): Promise<void> {
-    this.sessions.delete(userId);
-  }
 
-  async cleanupExpiredSessions(): Promise<void> {
+  // Only items stored with a ttl are visited
+  private evictExpired(): void {
     const now = Date.now();
-    const maxAge = 24 * 60 * 60 * 1000; // 24 hours
-    
-    for (const [userId, session] of this.sessions.entries()) {
-      if (now - session.lastActivity.getTime() > maxAge) {
-        this.sessions.delete(userId);
+    for (const [key, expiresAt] of this.expiries) {
+      if (expiresAt <= now) {
+        this.storage.delete(key);
+        this.expiries.delete(key);
       }
     }
   }
+}
 
-  async getHealth(): Promise<any> {
-    return {
-      isConnected: this.isConnectedFlag,
-      totalSessions: this.sessions.size,
-      timestamp: new Date()
-    };
-  }
-
-  on(_event: string, _callback: (event: any) => void): void {}
-  off(_event: string, _callback: (event: any) => void): void {}
-  backup(): Promise<string> { return Promise.resolve(''); }
-  restore(_backup: string): Promise<void> { return Promise.resolve(); }
-  migrate(): Promise<void> { return Promise.resolve(); }
+// Storage adapters such as RedisStorage that need connect() before use
+function isConnectableStorage(
+  storage: StorageAdapter
+): storage is StorageAdapter & { connect(): Promise<void>; disconnect(): Promise<void>; isConnected(): boolean } {
+  const candidate = storage as Partial<Record<'connect' | 'disconnect' | 'isConnected', unknown>>;
+  return typeof candidate.connect === 'function'
+    && typeof candidate.disconnect === 'function'
+    && typeof candidate.isConnected === 'function';
 }
 
 export class WalletConnectSDK {
   private config: WalletConnectSDKConfig;
   private logger: Logger;
   private storage: StorageAdapter;
+  private clientStorage: StorageAdapter | undefined;
+  private connectedStorage = false;
   private database: DatabaseAdapter;
+  private persistentSessions: boolean;
   private eventBus: EventBus;
   private userSessions: Map<string, UserSession> = new Map();
   private cleanupInterval?: NodeJS.Timeout;
   private isInitialized = false;
   private timeoutManager: TimeoutManager;
   private walletRegistry: WalletRegistry;
+  private network: NetworkConfig | undefined;
+  private clientMode: SignClientMode;
+  private clientPoolSize: number;
+  private sharedClients: Map<number, Promise<any>> = new Map();
+  private topicToUser: Map<string, string> = new Map();
+  private publicClients: Map<number, PublicClient> = new Map();
+  private nonceManager: NonceManager | undefined;
+  private feeEstimator: FeeEstimator;
+  private signatureVerifier: SignatureVerifier = new SignatureVerifier();
+  private verifySignatures: boolean;
+  private pendingApprovals: Map<string, PendingApproval> = new Map();
+  private callBatches: Map<string, CallBatch> = new Map();
+  private contractWatchers: Map<string, ContractEventWatcher> = new Map();
+
+  // ERC-20 balances, allowances, approvals and transfers
+  readonly tokens: TokenModule;
+  // ERC-721 / ERC-1155 ownership, metadata, transfers and approvals
+  readonly nfts: NftModule;
 
   constructor(options: SDKOptions) {
     this.config = {
@@ -227,9 +370,22 @@ export class WalletConnectSDK {
     this.logger = options.logger || new DefaultLogger();
     this.storage = options.storage || new MemoryStorage();
     this.eventBus = new EventBus();
-    this.database = options.database ? new SimpleDatabase() : new SimpleDatabase();
+    this.database = DatabaseFactory.create(options.database);
+    this.persistentSessions = DatabaseFactory.isPersistent(options.database);
+    // Restored sessions need the WalletConnect keys too. Without a storage adapter, a persistent
+    // database leaves SignClient on its own file storage rather than the in-memory one
+    this.clientStorage = options.storage || (this.persistentSessions ? undefined : this.storage);
     this.timeoutManager = new TimeoutManager(options.timeouts);
     this.walletRegistry = new WalletRegistry();
+    this.network = options.network;
+    this.nonceManager = options.nonceManagement ? new NonceManager() : undefined;
+    this.feeEstimator = new FeeEstimator(options.gas);
+    this.verifySignatures = options.verifySignatures === true;
+    this.clientMode = options.clientMode || 'per-user';
+    this.clientPoolSize = Math.max(1, options.clientPoolSize || 1);
+    const moduleContext = this.createModuleContext();
+    this.tokens = new TokenModule(moduleContext);
+    this.nfts = new NftModule(moduleContext, options.nft);
 
     // Set up cleanup interval
     if (options.cleanupInterval) {
@@ -250,6 +406,12 @@ export class WalletConnectSDK {
       
       // Initialize database
       await this.database.connect();
+
+      // Storage with a connection of its own (RedisStorage) has to be open before SignClient loads its keys
+      if (isConnectableStorage(this.storage) && !this.storage.isConnected()) {
+        await this.storage.connect();
+        this.connectedStorage = true;
+      }
       
       // Restore existing sessions
       await this.restoreSessions();
@@ -292,25 +454,12 @@ export class WalletConnectSDK {
         };
       }
 
-      // Create new WalletConnect client
-      const wcClient = await this.createWalletConnectClient(request.userId);
+      // Get a WalletConnect client (new per user, or from the shared pool)
+      const wcClient = await this.getClientForUser(request.userId);
       
       // Create connection URI using WalletConnect v2 API
-      const { uri } = await wcClient.connect({
-        requiredNamespaces: {
-          eip155: {
-            methods: request.methods || [
-              'eth_sendTransaction',
-              'eth_signTransaction',
-              'eth_sign',
-              'personal_sign',
-              'eth_signTypedData'
-            ],
-            chains: request.chainId ? [`eip155:${request.chainId}`] : ['eip155:1'],
-            events: request.events || ['chainChanged', 'accountsChanged']
-          }
-        }
-      });
+      const namespaces = this.buildNamespaces(request);
+      const { uri, approval } = await wcClient.connect(namespaces);
 
       // Validate URI before generating QR code
       if (!uri || typeof uri !== 'string' || uri.trim() === '') {
@@ -322,25 +471,17 @@ export class WalletConnectSDK {
 
       this.logger.info(`Generated URI for user ${request.userId}: ${uri.substring(0, 50)}...`);
 
+      const pairingTopic = parseUri(uri).topic;
+
       // Generate QR code
       const qrCode = await this.generateQRCode(uri);
 
       // Generate deep links for all supported wallets
       const deepLinks = WalletRegistry.generateDeepLinks(uri);
 
-      // Create user session
-      const session: UserSession = {
-        userId: request.userId,
-        wcClient,
-        isActive: false,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        lastActivity: new Date()
-      };
+      await this.createPendingSession(request.userId, wcClient, pairingTopic);
 
-      // Store session
-      this.userSessions.set(request.userId, session);
-      await this.database.saveSession(session);
+      this.trackApproval(request.userId, wcClient, pairingTopic, approval());
 
       this.logger.info(`Connection request created for user ${request.userId}`);
       
@@ -350,10 +491,14 @@ export class WalletConnectSDK {
         userId: request.userId,
         sessionId: request.userId,
         data: {
-          topic: uri,
+          topic: pairingTopic,
           address: '',
           chainId: request.chainId || 1,
-          namespace: 'eip155',
+          namespace: request.namespace || 'eip155',
+          namespaces: [
+            ...Object.keys(namespaces.requiredNamespaces),
+            ...Object.keys(namespaces.optionalNamespaces)
+          ].filter((namespace, index, all) => all.indexOf(namespace) === index),
           deepLinks: deepLinks.length
         }
       });
@@ -387,6 +532,67 @@ export class WalletConnectSDK {
     }
   }
 
+  /**
+   * Create a connection and wait until the wallet approves it.
+   * `onPending` receives the URI, QR code and deep links to show the user.
+   */
+  async connectAndWait(
+    request: ConnectionRequest,
+    onPending?: (connection: ConnectionResponse) => void | Promise<void>
+  ): Promise<SessionInfo> {
+    const connection = await this.connect(request);
+    if (!connection.success) {
+      throw new WalletConnectSDKError(
+        connection.error || 'Failed to create connection',
+        ErrorCodes.CONNECTION_FAILED
+      );
+    }
+
+    if (connection.uri && onPending) {
+      await onPending(connection);
+    }
+
+    return this.waitForApproval(request.userId);
+  }
+
+  /**
+   * Wait for the wallet to approve the pending connection of a user.
+   * Rejects with a TimeoutError after the connection timeout, or with a
+   * CONNECTION_REJECTED error when the wallet declines the proposal.
+   */
+  async waitForApproval(userId: string): Promise<SessionInfo> {
+    const session = this.userSessions.get(userId);
+    if (session && this.validateSession(session)) {
+      return this.toSessionInfo(session);
+    }
+
+    const pending = this.pendingApprovals.get(userId);
+    if (!pending) {
+      throw new WalletConnectSDKError(
+        `No pending connection for user ${userId}`,
+        ErrorCodes.SESSION_NOT_FOUND
+      );
+    }
+
+    try {
+      // One timer per wait, several callers may wait on the same proposal
+      const sessionInfo = await this.timeoutManager.waitForConnection(
+        `connection-${userId}-${pending.pairingTopic}-${uuidv4()}`,
+        pending.promise
+      );
+      if (this.pendingApprovals.get(userId) === pending) {
+        this.pendingApprovals.delete(userId);
+      }
+      return sessionInfo;
+    } catch (error) {
+      // Keep the proposal around after a timeout, the wallet may still approve it
+      if (!(error instanceof TimeoutError) && this.pendingApprovals.get(userId) === pending) {
+        this.pendingApprovals.delete(userId);
+      }
+      throw error;
+    }
+  }
+
   async disconnect(userId: string): Promise<boolean> {
     try {
       this.logger.info(`Disconnecting user ${userId}...`);
@@ -409,8 +615,7 @@ export class WalletConnectSDK {
       }
 
       // Remove session
-      this.userSessions.delete(userId);
-      await this.database.deleteSession(userId);
+      await this.removeSession(userId);
 
       this.logger.info(`User ${userId} disconnected successfully`);
       
@@ -453,6 +658,7 @@ export class WalletConnectSDK {
   }
 
   async sendTransaction(request: TransactionRequest): Promise<TransactionResponse> {
+    let recordId: string | undefined;
     try {
       this.logger.info(`Sending transaction for user ${request.userId}...`);
       
@@ -470,24 +676,20 @@ export class WalletConnectSDK {
         data: request.data,
         value: request.value,
         gas: request.gas,
+        gasPrice: request.gasPrice,
         maxFeePerGas: request.maxFeePerGas,
         maxPriorityFeePerGas: request.maxPriorityFeePerGas,
         nonce: request.nonce
       };
 
-      // Send transaction through WalletConnect
-      const result = await session.wcClient.request({
-        topic: session.topic,
-        chainId: `eip155:${request.chainId || 1}`,
-        request: {
-          method: 'eth_sendTransaction',
-          params: [transaction]
-        }
-      });
+      const chainId = this.resolveChainId(session, request.chainId);
+      recordId = await this.recordActivity(request.userId, 'transaction', request, chainId);
 
-      const hash = result as Hex;
+      // Send transaction through WalletConnect
+      const hash = await this.submitTransaction(session, chainId, transaction, request.speed);
       
       this.logger.info(`Transaction sent successfully for user ${request.userId}: ${hash}`);
+      await this.updateActivity(recordId, { hash, status: 'pending' });
       
       this.eventBus.emit({
         type: 'transaction_response',
@@ -500,12 +702,23 @@ export class WalletConnectSDK {
         }
       });
 
+      if (request.waitForReceipt) {
+        const tracked = await this.trackReceipt(request.userId, hash, chainId, request.confirmations);
+        await this.updateActivity(recordId, this.receiptActivity(tracked));
+        return tracked;
+      }
+
       return {
         success: true,
-        hash
+        hash,
+        status: 'pending'
       };
     } catch (error) {
       this.logger.error(`Failed to send transaction for user ${request.userId}:`, error);
+      await this.updateActivity(recordId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
       
       this.eventBus.emit({
         type: 'transaction_response',
@@ -524,7 +737,127 @@ export class WalletConnectSDK {
     }
   }
 
+  /**
+   * Send several calls as one batch. Wallets that approved wallet_sendCalls
+   * (EIP-5792) get the whole batch in a single request, other wallets get one
+   * eth_sendTransaction per call with consecutive nonces.
+   */
+  async sendCalls(userId: string, calls: BatchCall[], options: SendCallsOptions = {}): Promise<SendCallsResponse> {
+    let recordIds: (string | undefined)[] = [];
+    try {
+      this.logger.info(`Sending ${calls.length} batched calls for user ${userId}...`);
+
+      const session = await this.getSession(userId);
+      if (!session || !session.topic) {
+        throw new WalletConnectSDKError(
+          'User not connected',
+          ErrorCodes.SESSION_NOT_FOUND
+        );
+      }
+      if (calls.length === 0) {
+        throw new WalletConnectSDKError(
+          'At least one call is required',
+          ErrorCodes.INVALID_REQUEST
+        );
+      }
+
+      const chainId = this.resolveChainId(session, options.chainId);
+      const from = this.getChainAddress(session, chainId);
+      if (!from) {
+        throw new WalletConnectSDKError(
+          `No account for chain ${chainId}`,
+          ErrorCodes.INVALID_REQUEST
+        );
+      }
+
+      for (const call of calls) {
+        recordIds.push(await this.recordActivity(userId, 'transaction', { userId, ...call, chainId }, chainId));
+      }
+
+      let batch: CallBatch;
+      if (this.supportsSessionMethod(session, 'wallet_sendCalls')) {
+        batch = await this.sendCallsViaWallet(session, chainId, from, calls, options, recordIds);
+      } else if (options.atomic) {
+        throw new WalletConnectSDKError(
+          `Wallet of user ${userId} does not support wallet_sendCalls, calls cannot be executed atomically`,
+          ErrorCodes.INVALID_REQUEST
+        );
+      } else {
+        batch = await this.sendCallsSequentially(session, chainId, from, calls, options, recordIds);
+      }
+
+      const batchId = uuidv4();
+      this.callBatches.set(batchId, batch);
+      this.logger.info(`Batch ${batchId} sent for user ${userId} via ${batch.mode}`);
+
+      this.eventBus.emit({
+        type: 'transaction_response',
+        timestamp: new Date(),
+        userId,
+        data: {
+          success: true,
+          batchId,
+          mode: batch.mode,
+          hashes: batch.calls.map(call => call.hash).filter(Boolean)
+        }
+      });
+
+      if (options.waitForReceipt) {
+        await this.waitForCalls(batchId, batch, options.confirmations);
+      }
+
+      return this.toCallsResponse(batchId, batch);
+    } catch (error) {
+      this.logger.error(`Failed to send batched calls for user ${userId}:`, error);
+      for (const recordId of recordIds) {
+        await this.updateActivity(recordId, {
+          status: 'failed',
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+
+      this.eventBus.emit({
+        type: 'transaction_response',
+        timestamp: new Date(),
+        userId,
+        data: {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // Current status of a batch sent with sendCalls, per call and overall
+  async getCallsStatus(userId: string, batchId: string): Promise<SendCallsResponse> {
+    const batch = this.callBatches.get(batchId);
+    try {
+      if (!batch || batch.userId !== userId) {
+        throw new WalletConnectSDKError(
+          `Unknown batch ${batchId} for user ${userId}`,
+          ErrorCodes.INVALID_REQUEST
+        );
+      }
+
+      await this.refreshCallBatch(batchId, batch);
+      return this.toCallsResponse(batchId, batch);
+    } catch (error) {
+      this.logger.error(`Failed to get status of batch ${batchId} for user ${userId}:`, error);
+      return {
+        success: false,
+        batchId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   async signMessage(request: SignMessageRequest): Promise<SignResponse> {
+    let recordId: string | undefined;
     try {
       this.logger.info(`Signing message for user ${request.userId}...`);
       
@@ -536,17 +869,26 @@ export class WalletConnectSDK {
         );
       }
 
+      const chainId = this.resolveChainId(session, request.chainId);
+      const signer = request.address || this.getChainAddress(session, chainId);
+      recordId = await this.recordActivity(request.userId, 'sign_message', request, chainId);
+
       // Sign message through WalletConnect
       const signature = await session.wcClient.request({
         topic: session.topic,
-        chainId: `eip155:1`,
+        chainId: `eip155:${chainId}`,
         request: {
           method: 'personal_sign',
-          params: [request.message, request.address || session.address]
+          params: [request.message, signer]
         }
       });
 
       this.logger.info(`Message signed successfully for user ${request.userId}`);
+      await this.updateActivity(recordId, { signature: signature as string, status: 'signed' });
+
+      const verification = signer && (request.verify ?? this.verifySignatures)
+        ? await this.verifyMessage({ address: signer, message: request.message, signature: signature as Hex, chainId })
+        : undefined;
       
       this.eventBus.emit({
         type: 'sign_response',
@@ -554,16 +896,22 @@ export class WalletConnectSDK {
         userId: request.userId,
         data: {
           success: true,
-          signature: signature as string
+          signature: signature as string,
+          ...(verification ? { verification } : {})
         }
       });
 
       return {
         success: true,
-        signature: signature as string
+        signature: signature as string,
+        ...(verification ? { verification } : {})
       };
     } catch (error) {
       this.logger.error(`Failed to sign message for user ${request.userId}:`, error);
+      await this.updateActivity(recordId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
       
       this.eventBus.emit({
         type: 'sign_response',
@@ -583,6 +931,7 @@ export class WalletConnectSDK {
   }
 
   async signTypedData(request: SignTypedDataRequest): Promise<SignResponse> {
+    let recordId: string | undefined;
     try {
       this.logger.info(`Signing typed data for user ${request.userId}...`);
       
@@ -594,17 +943,38 @@ export class WalletConnectSDK {
         );
       }
 
+      // Reject malformed payloads before they reach the wallet
+      const typedData = TypedDataUtils.normalize(request);
+      const method = this.selectTypedDataMethod(session);
+
+      const chainId = this.resolveChainId(session, request.chainId);
+      const signer = request.address || this.getChainAddress(session, chainId);
+      recordId = await this.recordActivity(request.userId, 'sign_typed_data', request, chainId);
+
       // Sign typed data through WalletConnect
       const signature = await session.wcClient.request({
         topic: session.topic,
-        chainId: `eip155:1`,
+        chainId: `eip155:${chainId}`,
         request: {
-          method: 'eth_signTypedData',
-          params: [request.address || session.address, JSON.stringify(request.value)]
+          method,
+          params: [signer, TypedDataUtils.serialize(typedData)]
         }
       });
 
       this.logger.info(`Typed data signed successfully for user ${request.userId}`);
+      await this.updateActivity(recordId, { signature: signature as string, status: 'signed' });
+
+      const verification = signer && (request.verify ?? this.verifySignatures)
+        ? await this.verifyTypedData({
+          address: signer,
+          domain: typedData.domain,
+          types: typedData.types,
+          primaryType: typedData.primaryType,
+          value: typedData.message,
+          signature: signature as Hex,
+          chainId
+        })
+        : undefined;
       
       this.eventBus.emit({
         type: 'sign_response',
@@ -612,16 +982,22 @@ export class WalletConnectSDK {
         userId: request.userId,
         data: {
           success: true,
-          signature: signature as string
+          signature: signature as string,
+          ...(verification ? { verification } : {})
         }
       });
 
       return {
         success: true,
-        signature: signature as string
+        signature: signature as string,
+        ...(verification ? { verification } : {})
       };
     } catch (error) {
       this.logger.error(`Failed to sign typed data for user ${request.userId}:`, error);
+      await this.updateActivity(recordId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
       
       this.eventBus.emit({
         type: 'sign_response',
@@ -640,128 +1016,360 @@ export class WalletConnectSDK {
     }
   }
 
-  async getAccounts(userId: string): Promise<Address[]> {
+  async verifyMessage(request: VerifyMessageRequest): Promise<SignatureVerification> {
+    const chainId = request.chainId || this.network?.defaultChainId || 1;
     try {
-      const session = await this.getSession(userId);
-      if (!session || !session.topic) {
-        return [];
+      const { valid, kind } = await this.signatureVerifier.verifyMessage(
+        this.getPublicClient(chainId),
+        request.address,
+        request.message,
+        request.signature
+      );
+
+      if (!valid) {
+        this.logger.warn(`Message signature does not match ${request.address} (${kind})`);
       }
+      return { valid, kind, address: request.address, chainId };
+    } catch (error) {
+      this.logger.error(`Failed to verify message signature of ${request.address}:`, error);
+      return {
+        valid: false,
+        address: request.address,
+        chainId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
 
-      const accounts = await session.wcClient.request({
-        topic: session.topic,
-        chainId: `eip155:1`,
-        request: {
-          method: 'eth_accounts',
-          params: []
-        }
-      });
+  async verifyTypedData(request: VerifyTypedDataRequest): Promise<SignatureVerification> {
+    const chainId = request.chainId || Number(request.domain?.chainId) || this.network?.defaultChainId || 1;
+    try {
+      const { valid, kind } = await this.signatureVerifier.verifyTypedData(
+        this.getPublicClient(chainId),
+        request.address,
+        {
+          domain: request.domain,
+          types: request.types,
+          primaryType: request.primaryType,
+          message: request.value
+        },
+        request.signature
+      );
 
-      return accounts as Address[];
+      if (!valid) {
+        this.logger.warn(`Typed data signature does not match ${request.address} (${kind})`);
+      }
+      return { valid, kind, address: request.address, chainId };
     } catch (error) {
-      this.logger.error(`Failed to get accounts for user ${userId}:`, error);
-      return [];
+      this.logger.error(`Failed to verify typed data signature of ${request.address}:`, error);
+      return {
+        valid: false,
+        address: request.address,
+        chainId,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
     }
   }
 
-  async getBalance(userId: string, address?: Address): Promise<bigint> {
+  async signInWithEthereum(userId: string, options: SiweRequest): Promise<SiweResponse> {
+    let nonceKey: string | undefined;
     try {
+      this.logger.info(`Starting Sign-In with Ethereum for user ${userId}...`);
+
       const session = await this.getSession(userId);
-      if (!session) {
-        return 0n;
+      if (!session || !session.topic) {
+        throw new WalletConnectSDKError(
+          'User not connected',
+          ErrorCodes.SESSION_NOT_FOUND
+        );
       }
 
-      const targetAddress = address || session.address;
-      if (!targetAddress) {
-        return 0n;
+      const chainId = this.resolveChainId(session, options.chainId);
+      const address = options.address || this.getChainAddress(session, chainId);
+      if (!address) {
+        throw new WalletConnectSDKError(
+          `No account for chain ${chainId} in the session for user ${userId}`,
+          ErrorCodes.INVALID_REQUEST
+        );
+      }
+
+      const nonce = generateSiweNonce();
+      const issuedAt = new Date();
+      const expirationTime = new Date(issuedAt.getTime() + (options.expiresIn ?? DEFAULT_SIWE_EXPIRY));
+
+      let message: string;
+      try {
+        message = createSiweMessage({
+          address,
+          chainId,
+          domain: options.domain,
+          uri: options.uri,
+          nonce,
+          issuedAt,
+          expirationTime,
+          version: '1',
+          ...(options.statement ? { statement: options.statement } : {}),
+          ...(options.notBefore ? { notBefore: options.notBefore } : {}),
+          ...(options.requestId ? { requestId: options.requestId } : {}),
+          ...(options.resources ? { resources: options.resources } : {})
+        });
+      } catch (error) {
+        throw new WalletConnectSDKError(
+          `Invalid SIWE message: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          ErrorCodes.INVALID_REQUEST
+        );
       }
 
-      // Create public client for balance checking
-      const publicClient = createPublicClient({
-        chain: mainnet,
-        transport: http()
+      // The nonce is only valid once it is stored, and stops being valid once verified
+      nonceKey = `${SIWE_NONCE_PREFIX}${nonce}`;
+      await this.storeSiweNonce(nonceKey, {
+        userId,
+        domain: options.domain,
+        expiresAt: expirationTime.getTime()
       });
 
-      const balance = await publicClient.getBalance({ address: targetAddress });
-      return balance;
+      const signed = await this.signMessage({ userId, message, address, chainId });
+      if (!signed.success || !signed.signature) {
+        throw new WalletConnectSDKError(
+          signed.error || 'Wallet did not return a signature',
+          ErrorCodes.SIGNATURE_FAILED
+        );
+      }
+
+      nonceKey = undefined;
+      return await this.verifySiwe(message, signed.signature, userId);
     } catch (error) {
-      this.logger.error(`Failed to get balance for user ${userId}:`, error);
-      return 0n;
+      this.logger.error(`Sign-In with Ethereum failed for user ${userId}:`, error);
+      if (nonceKey) {
+        await this.storage.removeItem(nonceKey).catch(() => undefined);
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
     }
   }
 
-  // Contract Interaction Methods
-  async callContract(request: ContractCallRequest): Promise<ContractCallResponse> {
+  async verifySiwe(message: string, signature: string, userId?: string): Promise<SiweResponse> {
     try {
-      this.logger.info(`Calling contract function ${request.functionName} for user ${request.userId}...`);
-      
-      const session = await this.getSession(request.userId);
-      if (!session || !session.topic) {
+      const fields = parseSiweMessage(message);
+      if (!fields.address || !fields.chainId || !fields.domain || !fields.uri || !fields.nonce) {
         throw new WalletConnectSDKError(
-          'User not connected',
-          ErrorCodes.SESSION_NOT_FOUND
+          'Malformed SIWE message',
+          ErrorCodes.INVALID_REQUEST
         );
       }
 
-      // Encode function data
-      const encodedData = encodeFunctionData({
-        abi: request.contract.abi,
-        functionName: request.functionName,
-        args: request.args || []
-      });
+      const nonceKey = `${SIWE_NONCE_PREFIX}${fields.nonce}`;
+      const issued = await this.storage.getItem<SiweNonceRecord>(nonceKey);
+      if (!issued) {
+        throw new WalletConnectSDKError(
+          'Unknown or already used SIWE nonce',
+          ErrorCodes.AUTHENTICATION_FAILED
+        );
+      }
 
-      // Create transaction request
-      const transaction: any = {
-        to: request.contract.address,
-        data: encodedData,
-        value: request.value || 0n,
-        gas: request.gas,
-        maxFeePerGas: request.maxFeePerGas,
-        maxPriorityFeePerGas: request.maxPriorityFeePerGas,
-        nonce: request.nonce
-      };
+      // Another user's message must not burn the nonce its owner still has to sign
+      if (userId && issued.userId !== userId) {
+        throw new WalletConnectSDKError(
+          `SIWE nonce was not issued to user ${userId}`,
+          ErrorCodes.AUTHENTICATION_FAILED
+        );
+      }
 
-      // Send transaction through WalletConnect
-      const result = await session.wcClient.request({
-        topic: session.topic,
-        chainId: `eip155:${request.contract.chainId || 1}`,
-        request: {
-          method: 'eth_sendTransaction',
-          params: [transaction]
-        }
+      // Consume before verifying so a replayed signature can never pass twice
+      await this.storage.removeItem(nonceKey);
+      if (issued.expiresAt < Date.now()) {
+        throw new WalletConnectSDKError(
+          'SIWE message has expired',
+          ErrorCodes.AUTHENTICATION_FAILED
+        );
+      }
+
+      // Checks domain, nonce and validity window, then the signature (EOA, ERC-1271 or ERC-6492)
+      const valid = await this.getPublicClient(fields.chainId).verifySiweMessage({
+        message,
+        signature: signature as Hex,
+        domain: issued.domain,
+        nonce: fields.nonce
       });
+      if (!valid) {
+        throw new WalletConnectSDKError(
+          'SIWE signature verification failed',
+          ErrorCodes.AUTHENTICATION_FAILED
+        );
+      }
 
-      const hash = result as Hex;
-      
-      this.logger.info(`Contract call successful for user ${request.userId}: ${hash}`);
-      
-      this.eventBus.emit({
-        type: 'transaction_response',
-        timestamp: new Date(),
-        userId: request.userId,
-        data: {
+      const identity: SiweIdentity = {
+        userId: issued.userId,
+        address: fields.address,
+        chainId: fields.chainId,
+        domain: fields.domain,
+        uri: fields.uri,
+        nonce: fields.nonce,
+        issuedAt: fields.issuedAt || new Date(),
+        ...(fields.expirationTime ? { expirationTime: fields.expirationTime } : {}),
+        ...(fields.statement ? { statement: fields.statement } : {}),
+        ...(fields.resources ? { resources: fields.resources } : {}),
+        message,
+        signature
+      };
+
+      this.logger.info(`User ${issued.userId} signed in as ${identity.address} on chain ${identity.chainId}`);
+      return {
+        success: true,
+        identity
+      };
+    } catch (error) {
+      this.logger.error('Failed to verify SIWE message:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Authenticate a user and establish a session in one step (wc_sessionAuthenticate).
+   * The requested methods are granted through a ReCap in the sign-in message. Wallets
+   * without one-click auth approve the fallback session proposal instead, and are then
+   * asked for a separate SIWE signature. `onPending` receives the URI to show the user.
+   */
+  async authenticate(
+    request: AuthenticateRequest,
+    onPending?: (connection: ConnectionResponse) => void | Promise<void>
+  ): Promise<AuthenticateResponse> {
+    const { userId } = request;
+    let nonceKey: string | undefined;
+    try {
+      this.logger.info(`Authenticating user ${userId}...`);
+
+      const chainIds = request.chainIds?.length ? request.chainIds : [this.network?.defaultChainId || 1];
+      const expirationTime = new Date(Date.now() + (request.expiresIn ?? DEFAULT_SIWE_EXPIRY));
+
+      const nonce = generateSiweNonce();
+      nonceKey = `${SIWE_NONCE_PREFIX}${nonce}`;
+      await this.storeSiweNonce(nonceKey, {
+        userId,
+        domain: request.domain,
+        expiresAt: expirationTime.getTime()
+      });
+
+      const wcClient = await this.getClientForUser(userId);
+      const { uri, response } = await wcClient.authenticate({
+        chains: chainIds.map(chainId => `eip155:${chainId}`),
+        methods: request.methods || [...EVM_METHODS, ...EVM_OPTIONAL_METHODS],
+        domain: request.domain,
+        uri: request.uri,
+        nonce,
+        exp: expirationTime.toISOString(),
+        ...(request.statement ? { statement: request.statement } : {}),
+        // The sign client merges its ReCap into this array, don't hand it the caller's
+        ...(request.resources ? { resources: [...request.resources] } : {})
+      });
+
+      if (!uri || typeof uri !== 'string') {
+        throw new WalletConnectSDKError(
+          'Invalid authentication URI received from WalletConnect',
+          ErrorCodes.UNKNOWN_ERROR
+        );
+      }
+
+      await this.createPendingSession(userId, wcClient, parseUri(uri).topic);
+
+      if (onPending) {
+        await onPending({
           success: true,
-          hash,
-          functionName: request.functionName,
-          contractAddress: request.contract.address
+          uri,
+          qrCode: await this.generateQRCode(uri),
+          topic: uri,
+          deepLinks: WalletRegistry.generateDeepLinks(uri),
+          timeout: this.timeoutManager.getTimeout('connection'),
+          estimatedTime: this.timeoutManager.getTimeout('connection')
+        });
+      }
+
+      const result: AuthTypes.AuthenticateResponseResult = await this.timeoutManager.waitForConnection(
+        `connection-${userId}-${uuidv4()}`,
+        response()
+      );
+
+      const session = this.userSessions.get(userId);
+      if (!session) {
+        throw new WalletConnectSDKError(
+          `Session for user ${userId} was removed before approval`,
+          ErrorCodes.SESSION_NOT_FOUND
+        );
+      }
+      if (!result.session) {
+        throw new WalletConnectSDKError(
+          'Wallet signed in without granting a session, request at least one method',
+          ErrorCodes.AUTHENTICATION_FAILED
+        );
+      }
+      this.activateSession(session, result.session, wcClient);
+
+      // One-click auth: the wallet signed the message carrying our nonce
+      const cacao = result.auths?.[0];
+      if (cacao) {
+        nonceKey = undefined;
+        const verified = await this.verifySiwe(formatMessage(cacao.p, cacao.p.iss), cacao.s.s, userId);
+        if (!verified.success || !verified.identity) {
+          throw new WalletConnectSDKError(
+            verified.error || 'CACAO verification failed',
+            ErrorCodes.AUTHENTICATION_FAILED
+          );
         }
+
+        return {
+          success: true,
+          method: 'one-click',
+          cacao,
+          identity: verified.identity,
+          session: this.toSessionInfo(session)
+        };
+      }
+
+      // Fallback: a plain session was approved, sign in over it
+      this.logger.info(`Wallet of user ${userId} does not support one-click auth, falling back to SIWE`);
+      await this.storage.removeItem(nonceKey);
+      nonceKey = undefined;
+
+      const signIn = await this.signInWithEthereum(userId, {
+        domain: request.domain,
+        uri: request.uri,
+        ...(request.statement ? { statement: request.statement } : {}),
+        ...(request.resources ? { resources: request.resources } : {}),
+        ...(request.expiresIn !== undefined ? { expiresIn: request.expiresIn } : {})
       });
+      if (!signIn.success || !signIn.identity) {
+        throw new WalletConnectSDKError(
+          signIn.error || 'Sign-In with Ethereum failed',
+          ErrorCodes.AUTHENTICATION_FAILED
+        );
+      }
 
       return {
         success: true,
-        hash
+        method: 'siwe',
+        cacao: this.toCacao(signIn.identity),
+        identity: signIn.identity,
+        session: this.toSessionInfo(session)
       };
     } catch (error) {
-      this.logger.error(`Failed to call contract for user ${request.userId}:`, error);
-      
+      this.logger.error(`Failed to authenticate user ${userId}:`, error);
+      if (nonceKey) {
+        await this.storage.removeItem(nonceKey).catch(() => undefined);
+      }
+
       this.eventBus.emit({
-        type: 'transaction_response',
+        type: 'error',
         timestamp: new Date(),
-        userId: request.userId,
+        userId,
+        error: error as Error,
         data: {
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          functionName: request.functionName,
-          contractAddress: request.contract.address
+          context: 'authenticate'
         }
       });
 
@@ -772,9 +1380,10 @@ export class WalletConnectSDK {
     }
   }
 
-  async readContract(request: ContractReadRequest): Promise<ContractReadResponse> {
+  // Solana Methods
+  async signSolanaMessage(request: SolanaSignMessageRequest): Promise<SolanaSignResponse> {
     try {
-      this.logger.info(`Reading contract function ${request.functionName} for user ${request.userId}...`);
+      this.logger.info(`Signing Solana message for user ${request.userId}...`);
       
       const session = await this.getSession(request.userId);
       if (!session || !session.topic) {
@@ -784,44 +1393,52 @@ export class WalletConnectSDK {
         );
       }
 
-      // Encode function data
-      const encodedData = encodeFunctionData({
-        abi: request.contract.abi,
-        functionName: request.functionName,
-        args: request.args || []
-      });
+      const chain = this.resolveSolanaChain(session, request.chain);
 
-      // Call contract through WalletConnect
+      // solana_signMessage expects the message bytes base58 encoded
       const result = await session.wcClient.request({
         topic: session.topic,
-        chainId: `eip155:${request.contract.chainId || 1}`,
+        chainId: chain,
         request: {
-          method: 'eth_call',
-          params: [
-            {
-              to: request.contract.address,
-              data: encodedData
-            },
-            request.blockNumber ? `0x${request.blockNumber.toString(16)}` : 'latest'
-          ]
+          method: 'solana_signMessage',
+          params: {
+            message: SolanaUtils.encodeBase58(Buffer.from(request.message, 'utf8')),
+            pubkey: this.getSolanaSigner(session, chain, request.pubkey)
+          }
         }
       });
 
-      // Decode the result
-      const decodedData = decodeFunctionData({
-        abi: request.contract.abi,
-        data: result as Hex
-      });
+      const signature = (result as { signature: string }).signature;
 
-      this.logger.info(`Contract read successful for user ${request.userId}`);
+      this.logger.info(`Solana message signed successfully for user ${request.userId}`);
       
+      this.eventBus.emit({
+        type: 'sign_response',
+        timestamp: new Date(),
+        userId: request.userId,
+        data: {
+          success: true,
+          signature
+        }
+      });
+
       return {
         success: true,
-        data: decodedData
+        signature
       };
     } catch (error) {
-      this.logger.error(`Failed to read contract for user ${request.userId}:`, error);
+      this.logger.error(`Failed to sign Solana message for user ${request.userId}:`, error);
       
+      this.eventBus.emit({
+        type: 'sign_response',
+        timestamp: new Date(),
+        userId: request.userId,
+        data: {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -829,24 +1446,99 @@ export class WalletConnectSDK {
     }
   }
 
-  async encodeFunction(request: FunctionEncodeRequest): Promise<FunctionEncodeResponse> {
+  async signSolanaTransaction(request: SolanaTransactionRequest): Promise<SolanaSignResponse> {
+    return this.requestSolanaTransaction(request, 'solana_signTransaction');
+  }
+
+  async signAndSendSolanaTransaction(request: SolanaTransactionRequest): Promise<SolanaSignResponse> {
+    return this.requestSolanaTransaction(request, 'solana_signAndSendTransaction');
+  }
+
+  async getAccounts(userId: string, chainId?: number): Promise<Address[]> {
     try {
-      this.logger.info(`Encoding function ${request.functionName}...`);
+      const session = await this.getSession(userId);
+      if (!session || !session.topic) {
+        return [];
+      }
+
+      const accounts = await session.wcClient.request({
+        topic: session.topic,
+        chainId: `eip155:${this.resolveChainId(session, chainId)}`,
+        request: {
+          method: 'eth_accounts',
+          params: []
+        }
+      });
+
+      return accounts as Address[];
+    } catch (error) {
+      this.logger.error(`Failed to get accounts for user ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async getBalance(userId: string, address?: Address, chainId?: number): Promise<bigint> {
+    try {
+      const session = await this.getSession(userId);
+      if (!session) {
+        return 0n;
+      }
+
+      const targetChainId = this.resolveChainId(session, chainId);
+      const targetAddress = address || this.getChainAddress(session, targetChainId);
+      if (!targetAddress) {
+        return 0n;
+      }
+
+      const publicClient = this.getPublicClient(targetChainId);
+
+      const balance = await publicClient.getBalance({ address: targetAddress });
+      return balance;
+    } catch (error) {
+      this.logger.error(`Failed to get balance for user ${userId}:`, error);
+      return 0n;
+    }
+  }
+
+  async getTransactionHistory(userId: string, options?: QueryOptions): Promise<QueryResult<TransactionRecord>> {
+    return this.database.getTransactionHistory(userId, options);
+  }
+
+  // Chain Management Methods
+  async switchChain(userId: string, chainId: number): Promise<ChainSwitchResponse> {
+    try {
+      this.logger.info(`Switching user ${userId} to chain ${chainId}...`);
       
-      const encodedData = encodeFunctionData({
-        abi: request.contract.abi,
-        functionName: request.functionName,
-        args: request.args || []
+      const session = await this.getSession(userId);
+      if (!session || !session.topic) {
+        throw new WalletConnectSDKError(
+          'User not connected',
+          ErrorCodes.SESSION_NOT_FOUND
+        );
+      }
+
+      this.assertChainApproved(session, chainId);
+
+      await session.wcClient.request({
+        topic: session.topic,
+        chainId: `eip155:${this.resolveChainId(session)}`,
+        request: {
+          method: 'wallet_switchEthereumChain',
+          params: [{ chainId: `0x${chainId.toString(16)}` }]
+        }
       });
 
-      this.logger.info(`Function encoded successfully: ${encodedData}`);
+      // Not every wallet follows up with a chainChanged event
+      this.setActiveChain(session, chainId);
+
+      this.logger.info(`User ${userId} switched to chain ${chainId}`);
       
       return {
         success: true,
-        data: encodedData
+        chainId
       };
     } catch (error) {
-      this.logger.error(`Failed to encode function ${request.functionName}:`, error);
+      this.logger.error(`Failed to switch chain for user ${userId}:`, error);
       
       return {
         success: false,
@@ -855,23 +1547,43 @@ export class WalletConnectSDK {
     }
   }
 
-  async decodeFunction(request: FunctionDecodeRequest): Promise<FunctionDecodeResponse> {
+  async addChain(userId: string, chain: ChainConfig): Promise<ChainSwitchResponse> {
     try {
-      this.logger.info(`Decoding function ${request.functionName}...`);
+      this.logger.info(`Adding chain ${chain.chainId} for user ${userId}...`);
       
-      const decodedData = decodeFunctionData({
-        abi: request.contract.abi,
-        data: request.data
+      const session = await this.getSession(userId);
+      if (!session || !session.topic) {
+        throw new WalletConnectSDKError(
+          'User not connected',
+          ErrorCodes.SESSION_NOT_FOUND
+        );
+      }
+
+      this.assertChainApproved(session, chain.chainId);
+
+      await session.wcClient.request({
+        topic: session.topic,
+        chainId: `eip155:${this.resolveChainId(session)}`,
+        request: {
+          method: 'wallet_addEthereumChain',
+          params: [{
+            chainId: `0x${chain.chainId.toString(16)}`,
+            chainName: chain.name,
+            rpcUrls: [chain.rpcUrl],
+            nativeCurrency: chain.nativeCurrency || { name: 'Ether', symbol: 'ETH', decimals: 18 },
+            blockExplorerUrls: chain.blockExplorer ? [chain.blockExplorer] : undefined
+          }]
+        }
       });
 
-      this.logger.info(`Function decoded successfully`);
+      this.logger.info(`Chain ${chain.chainId} added for user ${userId}`);
       
       return {
         success: true,
-        args: Array.isArray(decodedData) ? decodedData : [decodedData]
+        chainId: chain.chainId
       };
     } catch (error) {
-      this.logger.error(`Failed to decode function ${request.functionName}:`, error);
+      this.logger.error(`Failed to add chain for user ${userId}:`, error);
       
       return {
         success: false,
@@ -880,9 +1592,11 @@ export class WalletConnectSDK {
     }
   }
 
-  async estimateGas(request: ContractCallRequest): Promise<{ success: boolean; gas?: bigint; error?: string }> {
+  // Contract Interaction Methods
+  async callContract(request: ContractCallRequest): Promise<ContractCallResponse> {
+    let recordId: string | undefined;
     try {
-      this.logger.info(`Estimating gas for function ${request.functionName}...`);
+      this.logger.info(`Calling contract function ${request.functionName} for user ${request.userId}...`);
       
       const session = await this.getSession(request.userId);
       if (!session || !session.topic) {
@@ -899,50 +1613,471 @@ export class WalletConnectSDK {
         args: request.args || []
       });
 
-      // Estimate gas through WalletConnect with timeout
-      const result = await this.timeoutManager.waitForGasEstimation(
-        `gas-estimation-${request.userId}`,
-        session.wcClient.request({
-          topic: session.topic,
-          chainId: `eip155:${request.contract.chainId || 1}`,
-          request: {
-            method: 'eth_estimateGas',
-            params: [
-              {
-                to: request.contract.address,
-                data: encodedData,
-                value: request.value || 0n
-              }
-            ]
-          }
-        })
-      );
-
-      const gas = BigInt(result as string);
-      
-      this.logger.info(`Gas estimated successfully: ${gas}`);
-      
-      return {
-        success: true,
-        gas
+      // Create transaction request
+      const transaction: any = {
+        to: request.contract.address,
+        data: encodedData,
+        value: request.value || 0n,
+        gas: request.gas,
+        gasPrice: request.gasPrice,
+        maxFeePerGas: request.maxFeePerGas,
+        maxPriorityFeePerGas: request.maxPriorityFeePerGas,
+        nonce: request.nonce
       };
-    } catch (error) {
-      this.logger.error(`Failed to estimate gas for function ${request.functionName}:`, error);
-      
-      if (error instanceof TimeoutError) {
-        return {
-          success: false,
-          error: `Gas estimation timed out after ${this.timeoutManager.formatTimeout(error.timeout)}`
-        };
+
+      const chainId = this.resolveChainId(session, request.contract.chainId);
+
+      // Don't send a call to the user's phone that is going to revert anyway
+      const simulation = await this.simulateCall(session, chainId, request.contract, encodedData, request.value);
+      if (!simulation.success) {
+        const message = `Transaction would revert: ${simulation.revertReason || 'unknown reason'}`;
+        if (!request.force) {
+          this.logger.warn(`Refusing ${request.functionName} for user ${request.userId}. ${message}`);
+          
+          this.eventBus.emit({
+            type: 'transaction_response',
+            timestamp: new Date(),
+            userId: request.userId,
+            data: {
+              success: false,
+              error: message,
+              code: ErrorCodes.SIMULATION_REVERTED,
+              functionName: request.functionName,
+              contractAddress: request.contract.address
+            }
+          });
+
+          return {
+            success: false,
+            error: message,
+            simulation
+          };
+        }
+        this.logger.warn(`Sending ${request.functionName} for user ${request.userId} despite simulation (force). ${message}`);
       }
+
+      // The ABI is not worth keeping in the ledger, the address identifies the contract
+      recordId = await this.recordActivity(request.userId, 'contract_call', {
+        ...request,
+        contract: { address: request.contract.address, chainId: request.contract.chainId }
+      }, chainId);
+
+      // Send transaction through WalletConnect
+      const hash = await this.submitTransaction(session, chainId, transaction, request.speed);
       
-      return {
+      this.logger.info(`Contract call successful for user ${request.userId}: ${hash}`);
+      await this.updateActivity(recordId, { hash, status: 'pending' });
+      
+      this.eventBus.emit({
+        type: 'transaction_response',
+        timestamp: new Date(),
+        userId: request.userId,
+        data: {
+          success: true,
+          hash,
+          functionName: request.functionName,
+          contractAddress: request.contract.address
+        }
+      });
+
+      if (request.waitForReceipt) {
+        const tracked = await this.trackReceipt(request.userId, hash, chainId, request.confirmations);
+        await this.updateActivity(recordId, this.receiptActivity(tracked));
+        return tracked;
+      }
+
+      return {
+        success: true,
+        hash,
+        status: 'pending'
+      };
+    } catch (error) {
+      this.logger.error(`Failed to call contract for user ${request.userId}:`, error);
+      await this.updateActivity(recordId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      
+      this.eventBus.emit({
+        type: 'transaction_response',
+        timestamp: new Date(),
+        userId: request.userId,
+        data: {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error',
+          functionName: request.functionName,
+          contractAddress: request.contract.address
+        }
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async simulateContractCall(request: ContractCallRequest): Promise<SimulationResult> {
+    const session = await this.getSession(request.userId);
+    if (!session || !session.topic) {
+      throw new WalletConnectSDKError(
+        'User not connected',
+        ErrorCodes.SESSION_NOT_FOUND
+      );
+    }
+
+    const encodedData = encodeFunctionData({
+      abi: request.contract.abi,
+      functionName: request.functionName,
+      args: request.args || []
+    });
+
+    return this.simulateCall(
+      session,
+      this.resolveChainId(session, request.contract.chainId),
+      request.contract,
+      encodedData,
+      request.value
+    );
+  }
+
+  async readContract(request: ContractReadRequest): Promise<ContractReadResponse> {
+    const context = request.userId ? `for user ${request.userId}` : `on ${request.contract.address}`;
+    try {
+      this.logger.info(`Reading contract function ${request.functionName} ${context}...`);
+
+      if (request.via === 'wallet') {
+        return await this.readContractViaWallet(request);
+      }
+
+      const chainId = await this.resolveReadChainId(request);
+      const data = await this.timeoutManager.waitForContractRead(
+        `read-${request.contract.address}-${request.functionName}-${uuidv4()}`,
+        this.getPublicClient(chainId).readContract({
+          address: request.contract.address,
+          abi: request.contract.abi,
+          functionName: request.functionName,
+          args: request.args || [],
+          ...(request.blockNumber !== undefined ? { blockNumber: request.blockNumber } : {})
+        })
+      );
+
+      this.logger.info(`Contract read successful ${context}`);
+
+      return {
+        success: true,
+        data
+      };
+    } catch (error) {
+      this.logger.error(`Failed to read contract ${context}:`, error);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Read several contract functions at once. Calls on the same chain and block
+   * are aggregated into a single Multicall3 eth_call. Results come back in
+   * request order, each with its own success or error.
+   */
+  async readContracts(requests: ContractReadRequest[]): Promise<ContractReadResponse[]> {
+    const results: ContractReadResponse[] = new Array(requests.length);
+
+    // Group by chain and block, one multicall per group
+    const groups = new Map<string, { chainId: number; blockNumber?: bigint; indexes: number[] }>();
+    for (const [index, request] of requests.entries()) {
+      if (request.via === 'wallet') {
+        results[index] = await this.readContract(request);
+        continue;
+      }
+
+      try {
+        const chainId = await this.resolveReadChainId(request);
+        const key = `${chainId}:${request.blockNumber ?? 'latest'}`;
+        const group = groups.get(key) || {
+          chainId,
+          ...(request.blockNumber !== undefined ? { blockNumber: request.blockNumber } : {}),
+          indexes: []
+        };
+        group.indexes.push(index);
+        groups.set(key, group);
+      } catch (error) {
+        results[index] = {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        };
+      }
+    }
+
+    await Promise.all(Array.from(groups.values()).map(async group => {
+      const calls = group.indexes.map(index => requests[index]!);
+
+      try {
+        const client = this.getPublicClient(group.chainId);
+
+        // Chains without a known Multicall3 deployment fall back to one eth_call per read
+        if (!client.chain?.contracts?.multicall3) {
+          const responses = await Promise.all(calls.map(request => this.readContract({ ...request, via: 'rpc' })));
+          responses.forEach((response, i) => {
+            results[group.indexes[i]!] = response;
+          });
+          return;
+        }
+
+        const responses = await this.timeoutManager.waitForContractRead(
+          `multicall-${group.chainId}-${uuidv4()}`,
+          client.multicall({
+            contracts: calls.map(request => ({
+              address: request.contract.address,
+              abi: request.contract.abi,
+              functionName: request.functionName,
+              args: request.args || []
+            })),
+            allowFailure: true,
+            ...(group.blockNumber !== undefined ? { blockNumber: group.blockNumber } : {})
+          })
+        );
+
+        responses.forEach((response, i) => {
+          results[group.indexes[i]!] = response.status === 'success'
+            ? { success: true, data: response.result }
+            : { success: false, error: response.error.message };
+        });
+      } catch (error) {
+        this.logger.error(`Multicall on chain ${group.chainId} failed:`, error);
+        for (const index of group.indexes) {
+          results[index] = {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+          };
+        }
+      }
+    }));
+
+    this.logger.info(`Read ${requests.length} contract calls in ${groups.size} multicall batch(es)`);
+    return results;
+  }
+
+  /**
+   * Get the logs of a contract between two blocks, decoded with the contract ABI.
+   * Long ranges are split into several eth_getLogs calls.
+   */
+  async getContractLogs(request: ContractLogsRequest): Promise<ContractLogsResponse> {
+    try {
+      this.logger.info(`Getting ${request.eventName || 'all'} logs of ${request.contract.address}...`);
+
+      const chainId = await this.resolveReadChainId(request);
+      const toBlock = request.toBlock ?? await this.getPublicClient(chainId).getBlockNumber();
+      const fromBlock = request.fromBlock ?? toBlock;
+      if (fromBlock > toBlock) {
+        throw new WalletConnectSDKError(
+          `fromBlock ${fromBlock} is after toBlock ${toBlock}`,
+          ErrorCodes.INVALID_REQUEST
+        );
+      }
+
+      const logs: ContractEventLog[] = [];
+      for (let start = fromBlock; start <= toBlock; start += LOG_BLOCK_RANGE) {
+        const end = start + LOG_BLOCK_RANGE - 1n < toBlock ? start + LOG_BLOCK_RANGE - 1n : toBlock;
+        logs.push(...await this.fetchContractLogs(chainId, request, start, end));
+      }
+
+      this.logger.info(`Found ${logs.length} logs of ${request.contract.address} in blocks ${fromBlock}-${toBlock}`);
+
+      return {
+        success: true,
+        logs,
+        fromBlock,
+        toBlock
+      };
+    } catch (error) {
+      this.logger.error(`Failed to get logs of ${request.contract.address}:`, error);
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  /**
+   * Poll the chain's RPC for new contract events and publish them as contract_event.
+   * The last processed block is kept in storage under the watch id, so a watcher
+   * started again with the same id resumes where it stopped. Returns the watch id.
+   */
+  async watchContractEvents(request: WatchContractEventsRequest): Promise<string> {
+    // Fail on unknown events and filters now rather than on every poll
+    this.getEventAbi(request);
+
+    const chainId = await this.resolveReadChainId(request);
+    const watchId = request.watchId || [
+      chainId,
+      request.contract.address.toLowerCase(),
+      request.eventName || '*',
+      ...(request.userId ? [request.userId] : [])
+    ].join(':');
+
+    if (this.contractWatchers.has(watchId)) {
+      this.logger.debug(`Contract events for ${watchId} are already watched`);
+      return watchId;
+    }
+
+    const cursor = await this.storage.getItem<ContractEventCursor>(`${CONTRACT_EVENT_CURSOR_PREFIX}${watchId}`);
+    const nextBlock = cursor ? BigInt(cursor.lastBlock) + 1n : request.fromBlock;
+    const watcher: ContractEventWatcher = {
+      watchId,
+      chainId,
+      request,
+      ...(nextBlock !== undefined ? { nextBlock } : {}),
+      stopped: false
+    };
+    this.contractWatchers.set(watchId, watcher);
+
+    this.logger.info(`Watching ${request.eventName || 'all'} events of ${request.contract.address} on chain ${chainId} from ${nextBlock ?? 'the next block'}`);
+    void this.pollContractEvents(watcher);
+
+    return watchId;
+  }
+
+  // Stop a watcher, its cursor stays in storage unless clearCursor is set
+  async unwatchContractEvents(watchId: string, options: { clearCursor?: boolean } = {}): Promise<void> {
+    const watcher = this.contractWatchers.get(watchId);
+    if (watcher) {
+      watcher.stopped = true;
+      if (watcher.timer) {
+        clearTimeout(watcher.timer);
+      }
+      this.contractWatchers.delete(watchId);
+      this.logger.info(`Stopped watching contract events for ${watchId}`);
+    }
+
+    if (options.clearCursor) {
+      await this.storage.removeItem(`${CONTRACT_EVENT_CURSOR_PREFIX}${watchId}`);
+    }
+  }
+
+  async encodeFunction(request: FunctionEncodeRequest): Promise<FunctionEncodeResponse> {
+    try {
+      this.logger.info(`Encoding function ${request.functionName}...`);
+      
+      const encodedData = encodeFunctionData({
+        abi: request.contract.abi,
+        functionName: request.functionName,
+        args: request.args || []
+      });
+
+      this.logger.info(`Function encoded successfully: ${encodedData}`);
+      
+      return {
+        success: true,
+        data: encodedData
+      };
+    } catch (error) {
+      this.logger.error(`Failed to encode function ${request.functionName}:`, error);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async decodeFunction(request: FunctionDecodeRequest): Promise<FunctionDecodeResponse> {
+    try {
+      this.logger.info(`Decoding function ${request.functionName}...`);
+      
+      const decodedData = decodeFunctionData({
+        abi: request.contract.abi,
+        data: request.data
+      });
+
+      this.logger.info(`Function decoded successfully`);
+      
+      return {
+        success: true,
+        args: Array.isArray(decodedData) ? decodedData : [decodedData]
+      };
+    } catch (error) {
+      this.logger.error(`Failed to decode function ${request.functionName}:`, error);
+      
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async estimateGas(request: ContractCallRequest): Promise<{ success: boolean; gas?: bigint; error?: string }> {
+    try {
+      this.logger.info(`Estimating gas for function ${request.functionName}...`);
+      
+      const session = await this.getSession(request.userId);
+      if (!session || !session.topic) {
+        throw new WalletConnectSDKError(
+          'User not connected',
+          ErrorCodes.SESSION_NOT_FOUND
+        );
+      }
+
+      // Encode function data
+      const encodedData = encodeFunctionData({
+        abi: request.contract.abi,
+        functionName: request.functionName,
+        args: request.args || []
+      });
+
+      const chainId = this.resolveChainId(session, request.contract.chainId);
+      const from = this.getChainAddress(session, chainId);
+      if (!from) {
+        throw new WalletConnectSDKError(
+          `No account approved on chain ${chainId}`,
+          ErrorCodes.INVALID_REQUEST
+        );
+      }
+
+      // Estimate gas on the public RPC with timeout, wallets rarely support eth_estimateGas
+      const gas = await this.timeoutManager.waitForGasEstimation(
+        `gas-estimation-${request.userId}-${uuidv4()}`,
+        this.feeEstimator.estimateGasLimit(this.getPublicClient(chainId), from, {
+          to: request.contract.address,
+          data: encodedData,
+          value: request.value || 0n
+        })
+      );
+      
+      this.logger.info(`Gas estimated successfully: ${gas}`);
+      
+      return {
+        success: true,
+        gas
+      };
+    } catch (error) {
+      this.logger.error(`Failed to estimate gas for function ${request.functionName}:`, error);
+      
+      if (error instanceof TimeoutError) {
+        return {
+          success: false,
+          error: `Gas estimation timed out after ${this.timeoutManager.formatTimeout(error.timeout)}`
+        };
+      }
+      
+      return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
 
+  async suggestFees(chainId?: number, speed?: FeeSpeed): Promise<FeeSuggestion> {
+    return this.feeEstimator.suggestFees(
+      this.getPublicClient(chainId || this.network?.defaultChainId || 1),
+      speed
+    );
+  }
+
   // Wallet-related methods
   async getSupportedWallets(chain?: string): Promise<WalletMetadata[]> {
     if (chain) {
@@ -1073,7 +2208,10 @@ export class WalletConnectSDK {
         await this.disconnect(userId);
       }
 
-      this.logger.info(`Cleaned up ${expiredSessions.length} expired sessions`);
+      // Stored sessions of users that never came back
+      const purged = await this.database.cleanupExpiredSessions();
+
+      this.logger.info(`Cleaned up ${expiredSessions.length} expired sessions, purged ${purged} stored sessions`);
     } catch (error) {
       this.logger.error('Failed to cleanup sessions:', error);
     }
@@ -1088,14 +2226,53 @@ export class WalletConnectSDK {
         clearInterval(this.cleanupInterval);
       }
 
-      // Disconnect all sessions
-      for (const [userId] of this.userSessions.entries()) {
-        await this.disconnect(userId);
+      // Stop contract event watchers, their cursors stay in storage
+      for (const watchId of Array.from(this.contractWatchers.keys())) {
+        await this.unwatchContractEvents(watchId);
+      }
+
+      if (this.persistentSessions) {
+        // Keep sessions in the database so the next init() restores them, only close the relay connections.
+        // Shared clients are closed below
+        const clients = this.clientMode === 'per-user'
+          ? new Set(Array.from(this.userSessions.values()).map(session => session.wcClient))
+          : new Set();
+        for (const client of clients) {
+          try {
+            await client?.core.relayer.transportClose();
+          } catch (error) {
+            this.logger.warn('Failed to close WalletConnect client:', error);
+          }
+        }
+        this.userSessions.clear();
+        this.topicToUser.clear();
+      } else {
+        // Disconnect all sessions
+        for (const [userId] of this.userSessions.entries()) {
+          await this.disconnect(userId);
+        }
+      }
+
+      // Close shared relay connections
+      for (const clientPromise of this.sharedClients.values()) {
+        try {
+          const client = await clientPromise;
+          await client.core.relayer.transportClose();
+        } catch (error) {
+          this.logger.warn('Failed to close shared WalletConnect client:', error);
+        }
       }
+      this.sharedClients.clear();
 
       // Disconnect database
       await this.database.disconnect();
 
+      // Only storage opened by init(), one connected beforehand belongs to the caller
+      if (this.connectedStorage && isConnectableStorage(this.storage)) {
+        await this.storage.disconnect();
+        this.connectedStorage = false;
+      }
+
       this.isInitialized = false;
       this.logger.info('WalletConnect SDK destroyed successfully');
     } catch (error) {
@@ -1104,7 +2281,33 @@ export class WalletConnectSDK {
   }
 
   // Private methods
-  private async createWalletConnectClient(_userId: string): Promise<any> {
+  private async getClientForUser(userId: string): Promise<any> {
+    if (this.clientMode === 'per-user') {
+      // SignClient persists its whole session map under one key, and shares its Core between clients of the
+      // same prefix. Without a prefix per user, clients overwrite each other's sessions and share relayer events
+      return this.createWalletConnectClient(userId, `user-${userId}`);
+    }
+
+    // Pick a stable pool slot so restored sessions land on the client holding their keys
+    const slot = this.getPoolSlot(userId);
+    let clientPromise = this.sharedClients.get(slot);
+    if (!clientPromise) {
+      clientPromise = this.createWalletConnectClient(userId, `pool-${slot}`);
+      this.sharedClients.set(slot, clientPromise);
+      clientPromise.catch(() => this.sharedClients.delete(slot));
+    }
+    return clientPromise;
+  }
+
+  private getPoolSlot(userId: string): number {
+    let hash = 0;
+    for (let i = 0; i < userId.length; i++) {
+      hash = (hash * 31 + userId.charCodeAt(i)) >>> 0;
+    }
+    return hash % this.clientPoolSize;
+  }
+
+  private async createWalletConnectClient(_userId: string, storagePrefix?: string): Promise<any> {
     try {
       this.logger.debug('Creating WalletConnect client...');
       
@@ -1116,68 +2319,42 @@ export class WalletConnectSDK {
         projectId: this.config.projectId,
         relayUrl: this.config.relayUrl || 'wss://relay.walletconnect.com',
         metadata: this.config.metadata!,
-        storage: this.storage
+        ...(this.clientStorage ? { storage: this.clientStorage } : {}),
+        ...(storagePrefix ? { customStoragePrefix: storagePrefix } : {})
       });
 
       this.logger.debug('WalletConnect client created successfully');
 
       // Set up event listeners
       client.on('session_connect', (args: any) => {
-        this.logger.info(`Session connected for topic ${args.topic}`);
+        const sessionStruct = args.session || args.params;
+        const topic: string = sessionStruct?.topic || args.topic;
+        this.logger.info(`Session connected for topic ${topic}`);
         
-        // Find session by checking all sessions since topic might not match initially
-        let session: UserSession | undefined;
-        for (const [userId, userSession] of this.userSessions.entries()) {
-          if (userSession.wcClient === client) {
-            session = userSession;
-            break;
-          }
+        // The settled session topic is new, so resolve the user through the pairing topic
+        const session = this.findSessionByTopic(sessionStruct?.pairingTopic) || this.findSessionByTopic(topic);
+        
+        if (session) {
+          this.activateSession(session, sessionStruct, client);
+        } else {
+          this.logger.warn(`No session found for connected client with topic ${topic}`);
         }
+      });
+
+      client.on('session_event', (args: any) => {
+        this.logger.info(`Session event for topic ${args.topic}:`, args.params?.event);
         
+        const session = this.findSessionByTopic(args.topic);
         if (session) {
-          // Update session with connection details
-          session.topic = args.topic;
-          session.isActive = true;
-          session.sessionData = args.params as any;
-          session.updatedAt = new Date();
-          session.lastActivity = new Date();
-          
-          // Get accounts from the session
-          const accounts = args.params?.namespaces?.eip155?.accounts || [];
-          if (accounts.length > 0) {
-            session.address = accounts[0].split(':')[2] as Address;
-          }
-          
-          this.logger.info(`User ${session.userId} connected successfully with address: ${session.address}`);
-          
-          // Clear the connection timer since user has connected
-          this.clearTimer(`connection-${session.userId}`).catch(err => 
-            this.logger.warn(`Failed to clear timer for user ${session.userId}:`, err)
-          );
-          
-          this.eventBus.emit({
-            type: 'session_connect',
-            timestamp: new Date(),
-            userId: session.userId,
-            sessionId: session.userId,
-            data: {
-              topic: args.topic,
-              address: session.address || '',
-              chainId: 1,
-              namespace: 'eip155',
-              accounts: accounts
+          if (args.params?.event?.name === 'chainChanged') {
+            // Wallets report the new chain as a number, a hex string or a CAIP-2 id
+            const rawChainId = String(args.params.event.data ?? args.params.chainId ?? '');
+            const chainId = Number(rawChainId.includes(':') ? rawChainId.split(':')[1] : rawChainId);
+            if (chainId) {
+              this.setActiveChain(session, chainId);
             }
-          });
-        } else {
-          this.logger.warn(`No session found for connected client with topic ${args.topic}`);
-        }
-      });
+          }
 
-      client.on('session_event', (args: any) => {
-        this.logger.info(`Session event for topic ${args.topic}:`, args.event);
-        
-        const session = this.findSessionByTopic(args.topic);
-        if (session) {
           this.eventBus.emit({
             type: 'session_event',
             timestamp: new Date(),
@@ -1185,8 +2362,8 @@ export class WalletConnectSDK {
             sessionId: session.userId,
             data: {
               topic: args.topic,
-              eventName: args.event?.name,
-              eventData: args.event?.data
+              eventName: args.params?.event?.name,
+              eventData: args.params?.event?.data
             }
           });
         }
@@ -1197,7 +2374,10 @@ export class WalletConnectSDK {
         
         const session = this.findSessionByTopic(args.topic);
         if (session) {
-          session.sessionData = args.params as any;
+          session.sessionData = { ...session.sessionData, ...args.params } as any;
+          if (args.params?.namespaces) {
+            this.applyNamespaces(session, args.params.namespaces);
+          }
           session.updatedAt = new Date();
           session.lastActivity = new Date();
           
@@ -1216,20 +2396,12 @@ export class WalletConnectSDK {
 
       client.on('session_delete', (args: any) => {
         this.logger.info(`Session deleted for topic ${args.topic}`);
-        
-        const session = this.findSessionByTopic(args.topic);
-        if (session) {
-          this.eventBus.emit({
-            type: 'session_disconnect',
-            timestamp: new Date(),
-            userId: session.userId,
-            sessionId: session.userId,
-            data: {
-              topic: args.topic,
-              reason: 'Session deleted'
-            }
-          });
-        }
+        this.endSession(args.topic, 'Session deleted');
+      });
+
+      client.on('session_expire', (args: any) => {
+        this.logger.info(`Session expired for topic ${args.topic}`);
+        this.endSession(args.topic, 'Session expired');
       });
 
       return client;
@@ -1243,34 +2415,1443 @@ export class WalletConnectSDK {
     }
   }
 
-  private findSessionByTopic(topic: string): UserSession | undefined {
-    for (const session of this.userSessions.values()) {
-      if (session.topic === topic) {
-        return session;
+  private async requestSolanaTransaction(
+    request: SolanaTransactionRequest,
+    method: 'solana_signTransaction' | 'solana_signAndSendTransaction'
+  ): Promise<SolanaSignResponse> {
+    try {
+      this.logger.info(`Requesting ${method} for user ${request.userId}...`);
+      
+      const session = await this.getSession(request.userId);
+      if (!session || !session.topic) {
+        throw new WalletConnectSDKError(
+          'User not connected',
+          ErrorCodes.SESSION_NOT_FOUND
+        );
+      }
+
+      const chain = this.resolveSolanaChain(session, request.chain);
+      const params: Record<string, any> = {
+        transaction: SolanaUtils.toBase64Transaction(request.transaction, request.encoding),
+        pubkey: this.getSolanaSigner(session, chain, request.pubkey)
+      };
+      if (method === 'solana_signAndSendTransaction' && request.sendOptions) {
+        params['sendOptions'] = request.sendOptions;
+      }
+
+      const result = await session.wcClient.request({
+        topic: session.topic,
+        chainId: chain,
+        request: {
+          method,
+          params
+        }
+      }) as { signature: string; transaction?: string };
+
+      this.logger.info(`${method} successful for user ${request.userId}: ${result.signature}`);
+      
+      this.eventBus.emit({
+        type: method === 'solana_signAndSendTransaction' ? 'transaction_response' : 'sign_response',
+        timestamp: new Date(),
+        userId: request.userId,
+        data: {
+          success: true,
+          signature: result.signature,
+          hash: method === 'solana_signAndSendTransaction' ? result.signature : undefined
+        }
+      });
+
+      return {
+        success: true,
+        signature: result.signature,
+        ...(result.transaction ? { transaction: result.transaction } : {})
+      };
+    } catch (error) {
+      this.logger.error(`Failed ${method} for user ${request.userId}:`, error);
+      
+      this.eventBus.emit({
+        type: method === 'solana_signAndSendTransaction' ? 'transaction_response' : 'sign_response',
+        timestamp: new Date(),
+        userId: request.userId,
+        data: {
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      });
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  private async submitTransaction(
+    session: UserSession,
+    chainId: number,
+    transaction: any,
+    speed?: FeeSpeed
+  ): Promise<Hex> {
+    const from = this.getChainAddress(session, chainId);
+
+    // Fill gas and fees from the public RPC, many wallets can't estimate over WalletConnect
+    if (from && (speed || this.feeEstimator.isAutoFillEnabled())) {
+      transaction = await this.timeoutManager.waitForGasEstimation(
+        `gas-estimation-${session.userId}-${uuidv4()}`,
+        this.feeEstimator.fillTransaction(this.getPublicClient(chainId), from, transaction, speed)
+      );
+      this.logger.debug(`Prepared transaction gas ${transaction.gas} for user ${session.userId}`);
+    }
+
+    const send = async (nonce?: number): Promise<Hex> => {
+      const result = await session.wcClient.request({
+        topic: session.topic,
+        chainId: `eip155:${chainId}`,
+        request: {
+          method: 'eth_sendTransaction',
+          params: [this.formatTransaction({ from, ...transaction, ...(nonce !== undefined ? { nonce } : {}) })]
+        }
+      });
+      return result as Hex;
+    };
+
+    if (!this.nonceManager || transaction.nonce !== undefined || !from) {
+      return send();
+    }
+
+    // Managed sends are queued, so one stuck request must not hold the queue forever
+    const key = NonceManager.key(chainId, from);
+    return this.nonceManager.run(
+      key,
+      () => this.getPublicClient(chainId).getTransactionCount({ address: from, blockTag: 'pending' }),
+      (nonce) => {
+        this.logger.debug(`Using nonce ${nonce} for ${from} on chain ${chainId}`);
+        return this.timeoutManager.waitForTransaction(`transaction-${key}-${nonce}`, send(nonce));
       }
+    );
+  }
+
+  private async sendCallsViaWallet(
+    session: UserSession,
+    chainId: number,
+    from: Address,
+    calls: BatchCall[],
+    options: SendCallsOptions,
+    recordIds: (string | undefined)[]
+  ): Promise<CallBatch> {
+    const atomic = await this.getAtomicSupport(session, chainId, from);
+    if (options.atomic && !atomic) {
+      throw new WalletConnectSDKError(
+        `Wallet of user ${session.userId} cannot execute calls atomically on chain ${chainId}`,
+        ErrorCodes.INVALID_REQUEST
+      );
     }
-    return undefined;
+
+    const result: any = await this.timeoutManager.waitForTransaction(
+      `send-calls-${session.userId}-${uuidv4()}`,
+      session.wcClient.request({
+        topic: session.topic,
+        chainId: `eip155:${chainId}`,
+        request: {
+          method: 'wallet_sendCalls',
+          params: [{
+            version: '2.0.0',
+            chainId: toHex(chainId),
+            from,
+            atomicRequired: options.atomic === true,
+            calls: calls.map(call => this.formatTransaction({ to: call.to, data: call.data, value: call.value }))
+          }]
+        }
+      })
+    );
+
+    // EIP-5792 v2 returns { id }, earlier drafts the id itself
+    const walletBatchId = typeof result === 'string' ? result : result?.id;
+    if (!walletBatchId) {
+      throw new WalletConnectSDKError(
+        'Wallet did not return a batch id',
+        ErrorCodes.TRANSACTION_FAILED
+      );
+    }
+
+    return {
+      userId: session.userId,
+      chainId,
+      mode: 'wallet_sendCalls',
+      atomic,
+      walletBatchId,
+      calls: calls.map((_, index) => ({ index, status: 'pending' })),
+      recordIds
+    };
   }
 
-  private async restoreSessions(): Promise<void> {
+  private async sendCallsSequentially(
+    session: UserSession,
+    chainId: number,
+    from: Address,
+    calls: BatchCall[],
+    options: SendCallsOptions,
+    recordIds: (string | undefined)[]
+  ): Promise<CallBatch> {
+    const batch: CallBatch = {
+      userId: session.userId,
+      chainId,
+      mode: 'sequential',
+      atomic: false,
+      calls: calls.map((_, index) => ({ index, status: 'pending' })),
+      recordIds
+    };
+
+    // The nonce manager already orders sends, without it number the calls here so they can't be mined out of order
+    let nonce = this.nonceManager
+      ? undefined
+      : await this.getPublicClient(chainId).getTransactionCount({ address: from, blockTag: 'pending' });
+
+    for (const [index, call] of calls.entries()) {
+      try {
+        const transaction = { to: call.to, data: call.data, value: call.value, ...(nonce !== undefined ? { nonce } : {}) };
+        const hash = await this.submitTransaction(session, chainId, transaction, options.speed);
+        batch.calls[index] = { index, status: 'pending', hash };
+        await this.updateActivity(recordIds[index], { hash, status: 'pending' });
+        if (nonce !== undefined) {
+          nonce++;
+        }
+
+        if (options.waitForEach) {
+          const tracked = await this.trackReceipt(session.userId, hash, chainId, options.confirmations);
+          batch.calls[index] = this.toCallResult(index, tracked);
+          await this.updateActivity(recordIds[index], this.receiptActivity(tracked));
+          if (!tracked.success) {
+            this.skipRemainingCalls(batch, index + 1, `Skipped after call ${index} ${tracked.status}`);
+            break;
+          }
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        this.logger.error(`Call ${index} of batch for user ${session.userId} failed:`, error);
+        batch.calls[index] = { index, status: 'failed', error: message };
+        await this.updateActivity(recordIds[index], { status: 'failed', error: message });
+        this.skipRemainingCalls(batch, index + 1, `Skipped after call ${index} failed`);
+        break;
+      }
+    }
+
+    for (const call of batch.calls.filter(call => call.status === 'skipped')) {
+      await this.updateActivity(recordIds[call.index], { status: 'failed', ...(call.error ? { error: call.error } : {}) });
+    }
+
+    return batch;
+  }
+
+  private skipRemainingCalls(batch: CallBatch, fromIndex: number, reason: string): void {
+    for (let index = fromIndex; index < batch.calls.length; index++) {
+      batch.calls[index] = { index, status: 'skipped', error: reason };
+    }
+  }
+
+  // Ask the wallet whether it executes batches atomically on this chain, the registry answers when it can't
+  private async getAtomicSupport(session: UserSession, chainId: number, from: Address): Promise<boolean> {
+    const peerName: string | undefined = session.sessionData?.peer?.metadata?.name;
+    const registryAnswer = peerName ? WalletRegistry.supportsAtomicBatch(peerName) : false;
+
+    if (!this.supportsSessionMethod(session, 'wallet_getCapabilities')) {
+      return registryAnswer;
+    }
+
     try {
-      const sessions = await this.database.getAllSessions();
-      
-      for (const session of sessions) {
-        if (this.validateSession(session)) {
-          // Recreate WalletConnect client
-          const wcClient = await this.createWalletConnectClient(session.userId);
-          session.wcClient = wcClient;
-          session.isActive = true;
-          
-          this.userSessions.set(session.userId, session);
-          this.logger.info(`Restored session for user ${session.userId}`);
+      const capabilities: any = await this.timeoutManager.waitForContractRead(
+        `capabilities-${session.userId}-${uuidv4()}`,
+        session.wcClient.request({
+          topic: session.topic,
+          chainId: `eip155:${chainId}`,
+          request: {
+            method: 'wallet_getCapabilities',
+            params: [from, [toHex(chainId)]]
+          }
+        })
+      );
+
+      // EIP-5792 v2 reports atomic.status, earlier drafts atomicBatch.supported
+      const chainCapabilities = capabilities?.[toHex(chainId)] || capabilities?.[chainId] || {};
+      if (chainCapabilities.atomic?.status) {
+        return chainCapabilities.atomic.status !== 'unsupported';
+      }
+      return chainCapabilities.atomicBatch?.supported === true;
+    } catch (error) {
+      this.logger.warn(`Failed to get wallet capabilities for user ${session.userId}:`, error);
+      return registryAnswer;
+    }
+  }
+
+  private async refreshCallBatch(batchId: string, batch: CallBatch): Promise<void> {
+    const previous = batch.calls.map(call => call.status);
+
+    if (batch.mode === 'wallet_sendCalls') {
+      const session = await this.getSession(batch.userId);
+      if (!session || !session.topic) {
+        throw new WalletConnectSDKError(
+          'User not connected',
+          ErrorCodes.SESSION_NOT_FOUND
+        );
+      }
+
+      const result = await this.timeoutManager.waitForContractRead(
+        `calls-status-${batch.walletBatchId}`,
+        session.wcClient.request({
+          topic: session.topic,
+          chainId: `eip155:${batch.chainId}`,
+          request: {
+            method: 'wallet_getCallsStatus',
+            params: [batch.walletBatchId]
+          }
+        })
+      );
+      this.applyWalletCallsStatus(batch, result);
+    } else {
+      const publicClient = this.getPublicClient(batch.chainId);
+      await Promise.all(batch.calls.map(async (call, index) => {
+        if (call.status !== 'pending' || !call.hash) {
+          return;
         }
+        const receipt = await publicClient.getTransactionReceipt({ hash: call.hash }).catch(() => null);
+        if (receipt) {
+          batch.calls[index] = receipt.status === 'success'
+            ? { index, status: 'confirmed', hash: call.hash, receipt }
+            : { index, status: 'reverted', hash: call.hash, receipt, error: 'Transaction reverted' };
+        }
+      }));
+    }
+
+    // Calls that just settled go to the ledger, wallet batches also emit their receipts
+    for (const [index, call] of batch.calls.entries()) {
+      if (previous[index] !== 'pending' || call.status === 'pending') {
+        continue;
       }
-      
-      this.logger.info(`Restored ${sessions.length} sessions`);
+
+      await this.updateActivity(batch.recordIds[index], {
+        status: call.status === 'skipped' ? 'failed' : call.status,
+        ...(call.hash ? { hash: call.hash } : {}),
+        ...(call.error ? { error: call.error } : {})
+      });
+
+      if (batch.mode !== 'wallet_sendCalls') {
+        continue;
+      }
+      if (call.status === 'confirmed') {
+        if (call.hash) {
+          this.eventBus.emit({
+            type: 'transaction_confirmed',
+            timestamp: new Date(),
+            userId: batch.userId,
+            data: { hash: call.hash, chainId: batch.chainId, blockNumber: call.receipt?.blockNumber, confirmations: 1, receipt: call.receipt }
+          });
+        }
+      } else {
+        // A call the wallet never got on chain has no hash, batchId and callIndex identify it
+        this.eventBus.emit({
+          type: 'transaction_failed',
+          timestamp: new Date(),
+          userId: batch.userId,
+          data: {
+            ...(call.hash ? { hash: call.hash } : {}),
+            chainId: batch.chainId,
+            batchId,
+            callIndex: index,
+            reason: BATCH_FAILURE_REASONS[call.status],
+            error: call.error,
+            receipt: call.receipt
+          }
+        });
+      }
+    }
+  }
+
+  private applyWalletCallsStatus(batch: CallBatch, result: any): void {
+    // EIP-5792 v2 reports numeric codes (1xx pending, 2xx confirmed, 4xx/5xx failed, 6xx partial),
+    // earlier drafts 'PENDING' and 'CONFIRMED'
+    const code = typeof result?.status === 'number'
+      ? result.status
+      : (result?.status === 'CONFIRMED' ? 200 : 100);
+    if (code < 200) {
+      return;
+    }
+
+    const receipts: any[] = Array.isArray(result.receipts) ? result.receipts : [];
+    batch.calls = batch.calls.map((_, index): BatchCallResult => {
+      // Atomic batches may be reported as a single receipt covering every call
+      const receipt = receipts.length === batch.calls.length
+        ? receipts[index]
+        : (batch.atomic && receipts.length === 1 ? receipts[0] : undefined);
+
+      if (receipt) {
+        const succeeded = receipt.status === '0x1' || receipt.status === 'success';
+        return {
+          index,
+          status: succeeded ? 'confirmed' : 'reverted',
+          hash: receipt.transactionHash,
+          receipt,
+          ...(succeeded ? {} : { error: 'Transaction reverted' })
+        };
+      }
+
+      if (code < 300) {
+        return { index, status: 'confirmed' };
+      }
+      if (code >= 500 && code < 600) {
+        return { index, status: 'reverted', error: 'Batch reverted' };
+      }
+      return { index, status: 'failed', error: code < 500 ? 'Batch was not included on chain' : 'Call was not included on chain' };
+    });
+  }
+
+  private async waitForCalls(batchId: string, batch: CallBatch, confirmations: number = 1): Promise<void> {
+    if (batch.mode === 'sequential') {
+      await Promise.all(batch.calls.map(async (call, index) => {
+        if (call.status !== 'pending' || !call.hash) {
+          return;
+        }
+        const tracked = await this.trackReceipt(batch.userId, call.hash, batch.chainId, confirmations);
+        batch.calls[index] = this.toCallResult(index, tracked);
+        await this.updateActivity(batch.recordIds[index], this.receiptActivity(tracked));
+      }));
+      return;
+    }
+
+    const timeout = this.timeoutManager.getTimeout('receipt');
+    const deadline = Date.now() + timeout;
+    while (true) {
+      await this.refreshCallBatch(batchId, batch);
+      if (this.summarizeCalls(batch.calls) !== 'pending') {
+        break;
+      }
+      if (Date.now() >= deadline) {
+        this.logger.warn(`Batch ${batchId} still pending after ${this.timeoutManager.formatTimeout(timeout)}`);
+        return;
+      }
+      await TimeoutUtils.sleep(CALLS_STATUS_POLL_INTERVAL);
+    }
+
+    // The wallet reports inclusion, further confirmations come from the public RPC
+    if (confirmations > 1) {
+      const publicClient = this.getPublicClient(batch.chainId);
+      const hashes = new Set(batch.calls.filter(call => call.status === 'confirmed' && call.hash).map(call => call.hash!));
+      await Promise.all(Array.from(hashes).map(hash =>
+        publicClient.waitForTransactionReceipt({ hash, confirmations, timeout }).catch(error => {
+          this.logger.warn(`Failed to wait for ${confirmations} confirmations of ${hash}:`, error);
+        })
+      ));
+    }
+  }
+
+  private toCallResult(index: number, tracked: TransactionResponse): BatchCallResult {
+    const status = tracked.status === 'confirmed' || tracked.status === 'reverted' || tracked.status === 'pending'
+      ? tracked.status
+      : 'failed';
+    return {
+      index,
+      status,
+      ...(tracked.hash ? { hash: tracked.hash } : {}),
+      ...(tracked.receipt ? { receipt: tracked.receipt } : {}),
+      ...(tracked.error ? { error: tracked.error } : {})
+    };
+  }
+
+  private summarizeCalls(calls: BatchCallResult[]): BatchStatus {
+    const failed = calls.filter(call => call.status !== 'pending' && call.status !== 'confirmed').length;
+    if (failed === 0) {
+      return calls.every(call => call.status === 'confirmed') ? 'confirmed' : 'pending';
+    }
+    return failed === calls.length ? 'failed' : 'partial';
+  }
+
+  private toCallsResponse(batchId: string, batch: CallBatch): SendCallsResponse {
+    const status = this.summarizeCalls(batch.calls);
+    const failedCall = batch.calls.find(call => call.status !== 'pending' && call.status !== 'confirmed');
+    return {
+      success: !failedCall,
+      batchId,
+      mode: batch.mode,
+      atomic: batch.atomic,
+      status,
+      calls: batch.calls,
+      ...(failedCall ? { error: `Call ${failedCall.index} ${failedCall.status}${failedCall.error ? `: ${failedCall.error}` : ''}` } : {})
+    };
+  }
+
+  private async simulateCall(
+    session: UserSession,
+    chainId: number,
+    contract: ContractConfig,
+    data: Hex,
+    value?: bigint
+  ): Promise<SimulationResult> {
+    try {
+      const from = this.getChainAddress(session, chainId);
+      const result = await this.timeoutManager.waitForContractRead(
+        `simulation-${session.userId}-${uuidv4()}`,
+        this.getPublicClient(chainId).call({
+          ...(from ? { account: from } : {}),
+          to: contract.address,
+          data,
+          ...(value ? { value } : {})
+        })
+      );
+
+      return {
+        success: true,
+        ...(result.data ? { returnData: result.data } : {})
+      };
     } catch (error) {
-      this.logger.error('Failed to restore sessions:', error);
+      return this.decodeRevert(error, contract.abi);
+    }
+  }
+
+  private decodeRevert(error: unknown, abi: any[]): SimulationResult {
+    // Dig the revert payload out of viem's error chain
+    const rawError = error instanceof BaseError
+      ? error.walk(cause => cause instanceof RawContractError) as RawContractError | null
+      : null;
+    const rawData = rawError?.data;
+    const revertData = (typeof rawData === 'object' && rawData !== null ? rawData.data : rawData) as Hex | undefined;
+
+    if (!revertData || revertData === '0x') {
+      return {
+        success: false,
+        revertReason: error instanceof BaseError ? error.shortMessage : (error instanceof Error ? error.message : 'Unknown error')
+      };
+    }
+
+    try {
+      // Error(string) and Panic(uint256) are decoded alongside the ABI's custom errors
+      const decoded = decodeErrorResult({ abi, data: revertData });
+      const errorArgs = decoded.args || [];
+      let revertReason: string;
+      if (decoded.errorName === 'Error') {
+        revertReason = String(errorArgs[0]);
+      } else if (decoded.errorName === 'Panic') {
+        const code = Number(errorArgs[0]);
+        revertReason = PANIC_REASONS[code] || `Panic(0x${code.toString(16)})`;
+      } else {
+        revertReason = `${decoded.errorName}(${errorArgs.map(arg => String(arg)).join(', ')})`;
+      }
+
+      return {
+        success: false,
+        revertReason,
+        errorName: decoded.errorName,
+        errorArgs
+      };
+    } catch {
+      return {
+        success: false,
+        revertReason: `Unknown error signature ${revertData.slice(0, 10)}`,
+        revertData
+      };
+    }
+  }
+
+  private formatTransaction(transaction: Record<string, any>): Record<string, any> {
+    // JSON-RPC expects quantities as hex strings, bigints don't survive the relay
+    const formatted: Record<string, any> = {};
+    for (const [key, value] of Object.entries(transaction)) {
+      if (value === undefined || value === null) {
+        continue;
+      }
+      formatted[key] = typeof value === 'bigint' || typeof value === 'number' ? toHex(value) : value;
     }
+    return formatted;
   }
-} 
\ No newline at end of file
+
+  private async recordActivity(
+    userId: string,
+    type: TransactionRecordType,
+    request: object,
+    chainId?: number
+  ): Promise<string | undefined> {
+    try {
+      const now = new Date();
+      const record: TransactionRecord = {
+        id: uuidv4(),
+        userId,
+        type,
+        ...(chainId !== undefined ? { chainId } : {}),
+        // Round-trip through JSON so bigints are stored as strings
+        request: JSON.parse(JSON.stringify(request, (_key, value) =>
+          typeof value === 'bigint' ? value.toString() : value
+        )),
+        status: 'requested',
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.database.saveTransactionRecord(record);
+      return record.id;
+    } catch (error) {
+      // The ledger must never block the request itself
+      this.logger.warn(`Failed to record ${type} for user ${userId}:`, error);
+      return undefined;
+    }
+  }
+
+  private async updateActivity(id: string | undefined, updates: Partial<TransactionRecord>): Promise<void> {
+    if (!id) {
+      return;
+    }
+
+    try {
+      await this.database.updateTransactionRecord(id, { ...updates, updatedAt: new Date() });
+    } catch (error) {
+      this.logger.warn(`Failed to update transaction record ${id}:`, error);
+    }
+  }
+
+  private receiptActivity(tracked: TransactionResponse): Partial<TransactionRecord> {
+    return {
+      status: tracked.status || 'pending',
+      ...(tracked.error ? { error: tracked.error } : {})
+    };
+  }
+
+  private async trackReceipt(
+    userId: string,
+    hash: Hex,
+    chainId: number,
+    confirmations: number = 1
+  ): Promise<TransactionResponse> {
+    const publicClient = this.getPublicClient(chainId);
+    const timeout = this.timeoutManager.getTimeout('receipt');
+    let replacement: { reason: 'cancelled' | 'replaced' | 'repriced'; hash: Hex } | undefined;
+
+    const fail = (
+      status: TransactionStatus,
+      reason: 'reverted' | 'dropped' | 'replaced' | 'timeout' | 'error',
+      error: string,
+      receipt?: TransactionReceipt
+    ): TransactionResponse => {
+      this.logger.warn(`Transaction ${hash} for user ${userId} failed: ${error}`);
+      
+      this.eventBus.emit({
+        type: 'transaction_failed',
+        timestamp: new Date(),
+        userId,
+        data: {
+          hash,
+          chainId,
+          reason,
+          error,
+          receipt,
+          replacedBy: replacement?.hash
+        }
+      });
+
+      return {
+        success: false,
+        hash,
+        error,
+        status,
+        ...(receipt ? { receipt } : {}),
+        ...(replacement ? { replacedBy: replacement.hash } : {})
+      };
+    };
+
+    try {
+      this.logger.info(`Waiting for ${confirmations} confirmation(s) of ${hash} on chain ${chainId}...`);
+      
+      const receipt = await publicClient.waitForTransactionReceipt({
+        hash,
+        confirmations,
+        timeout,
+        onReplaced: (response) => {
+          replacement = { reason: response.reason, hash: response.transaction.hash };
+        }
+      });
+
+      // A cancelled or replaced transaction never executes what the user asked for
+      if (replacement && replacement.reason !== 'repriced') {
+        return fail('replaced', 'replaced', `Transaction was ${replacement.reason} by ${replacement.hash}`, receipt);
+      }
+
+      if (receipt.status === 'reverted') {
+        return fail('reverted', 'reverted', 'Transaction reverted', receipt);
+      }
+
+      this.logger.info(`Transaction ${hash} confirmed in block ${receipt.blockNumber}`);
+      
+      this.eventBus.emit({
+        type: 'transaction_confirmed',
+        timestamp: new Date(),
+        userId,
+        data: {
+          hash,
+          chainId,
+          blockNumber: receipt.blockNumber,
+          confirmations,
+          receipt,
+          replacedBy: replacement?.hash
+        }
+      });
+
+      return {
+        success: true,
+        hash,
+        receipt,
+        status: 'confirmed',
+        ...(replacement ? { replacedBy: replacement.hash } : {})
+      };
+    } catch (error) {
+      if (error instanceof WaitForTransactionReceiptTimeoutError) {
+        // A transaction the node no longer knows about was dropped from the mempool
+        const known = await publicClient.getTransaction({ hash }).then(() => true, () => false);
+        if (!known) {
+          return fail('dropped', 'dropped', 'Transaction was dropped from the mempool');
+        }
+        return fail('pending', 'timeout', `Receipt not found after ${this.timeoutManager.formatTimeout(timeout)}`);
+      }
+
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      if (error instanceof RpcTimeoutError) {
+        return fail('pending', 'timeout', message);
+      }
+
+      // The RPC failed, not the transaction, whose outcome is still unknown
+      return fail('pending', 'error', `Failed to track transaction receipt: ${message}`);
+    }
+  }
+
+  // The storage drops nonces of sign-ins that are never completed once they expire
+  private async storeSiweNonce(nonceKey: string, record: SiweNonceRecord): Promise<void> {
+    const ttl = Math.max(1, Math.ceil((record.expiresAt - Date.now()) / 1000));
+    await this.storage.setItem<SiweNonceRecord>(nonceKey, record, ttl);
+  }
+
+  private resolveChainId(session: UserSession, chainId?: number): number {
+    if (chainId) {
+      return chainId;
+    }
+    if (session.activeChainId) {
+      return session.activeChainId;
+    }
+
+    const evmChain = session.chains?.find(chain => chain.startsWith('eip155:'));
+    if (evmChain) {
+      return Number(evmChain.split(':')[1]);
+    }
+
+    return this.network?.defaultChainId || 1;
+  }
+
+  private assertChainApproved(session: UserSession, chainId: number): void {
+    const chain = `eip155:${chainId}`;
+    if (!session.chains?.includes(chain)) {
+      throw new WalletConnectSDKError(
+        `Chain ${chain} is not approved in the session for user ${session.userId} ` +
+        `(approved: ${session.chains?.join(', ') || 'none'}). Reconnect with it in chainIds or network.chains`,
+        ErrorCodes.CHAIN_NOT_APPROVED
+      );
+    }
+  }
+
+  private setActiveChain(session: UserSession, chainId: number): void {
+    if (session.activeChainId === chainId) {
+      return;
+    }
+
+    session.activeChainId = chainId;
+    session.updatedAt = new Date();
+    session.lastActivity = new Date();
+    this.logger.info(`User ${session.userId} is now on chain ${chainId}`);
+
+    this.database.saveSession(session).catch(err =>
+      this.logger.warn(`Failed to persist session for user ${session.userId}:`, err)
+    );
+
+    this.eventBus.emit({
+      type: 'session_update',
+      timestamp: new Date(),
+      userId: session.userId,
+      sessionId: session.userId,
+      data: {
+        topic: session.topic || '',
+        updates: { activeChainId: chainId }
+      }
+    });
+  }
+
+  private createModuleContext(): SDKModuleContext {
+    return {
+      logger: this.logger,
+      getPublicClient: chainId => this.getPublicClient(chainId),
+      getDefaultChainId: () => this.network?.defaultChainId || 1,
+      getAccount: async (userId, chainId) => {
+        const session = await this.getSession(userId);
+        if (!session || !session.topic) {
+          throw new WalletConnectSDKError(
+            'User not connected',
+            ErrorCodes.SESSION_NOT_FOUND
+          );
+        }
+
+        const targetChainId = this.resolveChainId(session, chainId);
+        const address = this.getChainAddress(session, targetChainId);
+        if (!address) {
+          throw new WalletConnectSDKError(
+            `No account for chain ${targetChainId} in the session for user ${userId}`,
+            ErrorCodes.INVALID_REQUEST
+          );
+        }
+        return { address, chainId: targetChainId };
+      },
+      callContract: request => this.callContract(request)
+    };
+  }
+
+  // Reads use the contract's chain, then the user's active chain, then the network default
+  private async resolveReadChainId(request: { contract: ContractConfig; userId?: string }): Promise<number> {
+    if (request.contract.chainId) {
+      return request.contract.chainId;
+    }
+    if (request.userId) {
+      const session = await this.getSession(request.userId);
+      if (session) {
+        return this.resolveChainId(session);
+      }
+    }
+    return this.network?.defaultChainId || 1;
+  }
+
+  private async readContractViaWallet(request: ContractReadRequest): Promise<ContractReadResponse> {
+    const session = request.userId ? await this.getSession(request.userId) : null;
+    if (!session || !session.topic) {
+      throw new WalletConnectSDKError(
+        'User not connected',
+        ErrorCodes.SESSION_NOT_FOUND
+      );
+    }
+
+    // Encode function data
+    const encodedData = encodeFunctionData({
+      abi: request.contract.abi,
+      functionName: request.functionName,
+      args: request.args || []
+    });
+
+    // Call contract through WalletConnect
+    const result = await session.wcClient.request({
+      topic: session.topic,
+      chainId: `eip155:${this.resolveChainId(session, request.contract.chainId)}`,
+      request: {
+        method: 'eth_call',
+        params: [
+          {
+            to: request.contract.address,
+            data: encodedData
+          },
+          request.blockNumber !== undefined ? toHex(request.blockNumber) : 'latest'
+        ]
+      }
+    });
+
+    // Decode the result
+    const data = decodeFunctionResult({
+      abi: request.contract.abi,
+      functionName: request.functionName,
+      data: result as Hex
+    });
+
+    return {
+      success: true,
+      data
+    };
+  }
+
+  private async pollContractEvents(watcher: ContractEventWatcher): Promise<void> {
+    const { request } = watcher;
+    try {
+      const latest = await this.getPublicClient(watcher.chainId).getBlockNumber();
+      const head = latest - BigInt(request.confirmations || 0);
+
+      // Without a cursor or fromBlock, only events after the current head are reported
+      if (watcher.nextBlock === undefined) {
+        watcher.nextBlock = head + 1n;
+        await this.saveEventCursor(watcher, head);
+      }
+
+      while (!watcher.stopped && watcher.nextBlock <= head) {
+        const fromBlock: bigint = watcher.nextBlock;
+        const toBlock = fromBlock + LOG_BLOCK_RANGE - 1n < head ? fromBlock + LOG_BLOCK_RANGE - 1n : head;
+        const logs = await this.fetchContractLogs(watcher.chainId, request, fromBlock, toBlock);
+
+        for (const log of logs) {
+          this.eventBus.emit({
+            type: 'contract_event',
+            timestamp: new Date(),
+            ...(request.userId ? { userId: request.userId } : {}),
+            data: {
+              watchId: watcher.watchId,
+              ...log
+            }
+          });
+        }
+
+        // Saved after emitting, a crash in between replays the range rather than losing it
+        await this.saveEventCursor(watcher, toBlock);
+        watcher.nextBlock = toBlock + 1n;
+      }
+    } catch (error) {
+      // The cursor didn't move, the next poll retries the same range
+      this.logger.warn(`Failed to poll contract events for ${watcher.watchId}:`, error);
+    } finally {
+      if (!watcher.stopped) {
+        watcher.timer = setTimeout(
+          () => this.pollContractEvents(watcher),
+          request.pollInterval || DEFAULT_EVENT_POLL_INTERVAL
+        );
+      }
+    }
+  }
+
+  private async saveEventCursor(watcher: ContractEventWatcher, lastBlock: bigint): Promise<void> {
+    await this.storage.setItem<ContractEventCursor>(`${CONTRACT_EVENT_CURSOR_PREFIX}${watcher.watchId}`, {
+      chainId: watcher.chainId,
+      address: watcher.request.contract.address,
+      ...(watcher.request.eventName ? { eventName: watcher.request.eventName } : {}),
+      lastBlock: lastBlock.toString(),
+      updatedAt: Date.now()
+    });
+  }
+
+  private async fetchContractLogs(
+    chainId: number,
+    request: ContractLogsRequest,
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<ContractEventLog[]> {
+    const event = this.getEventAbi(request);
+    const logs = await this.timeoutManager.waitForContractRead(
+      `logs-${request.contract.address}-${fromBlock}-${uuidv4()}`,
+      this.getPublicClient(chainId).getLogs({
+        address: request.contract.address,
+        ...(event ? { event, ...(request.filter ? { args: request.filter as any } : {}) } : {}),
+        fromBlock,
+        toBlock
+      })
+    );
+
+    return this.decodeLogs(request.contract, chainId, logs);
+  }
+
+  private decodeLogs(contract: ContractConfig, chainId: number, logs: Log[]): ContractEventLog[] {
+    const decoded: ContractEventLog[] = [];
+    for (const log of logs) {
+      try {
+        const { eventName, args } = decodeEventLog({
+          abi: contract.abi,
+          data: log.data,
+          topics: log.topics
+        }) as { eventName: string; args: ContractEventLog['args'] };
+
+        decoded.push({
+          eventName,
+          args,
+          address: log.address,
+          chainId,
+          blockNumber: log.blockNumber!,
+          blockHash: log.blockHash!,
+          transactionHash: log.transactionHash!,
+          logIndex: log.logIndex!
+        });
+      } catch (error) {
+        // Events missing from the ABI can't be decoded, they are left out
+        this.logger.debug(`Skipping log ${log.transactionHash}:${log.logIndex} of ${contract.address}:`, error);
+      }
+    }
+    return decoded;
+  }
+
+  private getEventAbi(request: ContractLogsRequest): AbiEvent | undefined {
+    if (!request.eventName) {
+      if (request.filter) {
+        throw new WalletConnectSDKError(
+          'filter requires an eventName',
+          ErrorCodes.INVALID_REQUEST
+        );
+      }
+      return undefined;
+    }
+
+    const event = request.contract.abi.find(item => item.type === 'event' && item.name === request.eventName);
+    if (!event) {
+      throw new WalletConnectSDKError(
+        `Event ${request.eventName} is not in the ABI of ${request.contract.address}`,
+        ErrorCodes.INVALID_REQUEST
+      );
+    }
+    return event as AbiEvent;
+  }
+
+  // A method is usable when the session approved it and the wallet is not known to lack it
+  private getApprovedMethods(session: UserSession): string[] {
+    return Object.values(session.sessionData?.namespaces || {})
+      .flatMap(namespace => namespace.methods || []);
+  }
+
+  private supportsSessionMethod(session: UserSession, method: string): boolean {
+    if (!this.getApprovedMethods(session).includes(method)) {
+      return false;
+    }
+
+    const peerName: string | undefined = session.sessionData?.peer?.metadata?.name;
+    const wallet = peerName ? WalletRegistry.findWallet(peerName) : undefined;
+    return wallet ? wallet.supportedMethods.includes(method) : true;
+  }
+
+  // eth_signTypedData_v4 when the wallet takes it, the legacy method when only that was approved
+  private selectTypedDataMethod(session: UserSession): string {
+    if (this.supportsSessionMethod(session, 'eth_signTypedData_v4')) {
+      return 'eth_signTypedData_v4';
+    }
+
+    const approved = this.getApprovedMethods(session);
+    if (approved.includes('eth_signTypedData')) {
+      return 'eth_signTypedData';
+    }
+    if (approved.includes('eth_signTypedData_v4')) {
+      return 'eth_signTypedData_v4';
+    }
+
+    throw new WalletConnectSDKError(
+      `The session of user ${session.userId} approved neither eth_signTypedData_v4 nor eth_signTypedData`,
+      ErrorCodes.INVALID_REQUEST
+    );
+  }
+
+  private getChainAddress(session: UserSession, chainId: number): Address | undefined {
+    return (session.accounts?.[`eip155:${chainId}`]?.[0] as Address | undefined) || session.address;
+  }
+
+  private getPublicClient(chainId: number): PublicClient {
+    const cached = this.publicClients.get(chainId);
+    if (cached) {
+      return cached;
+    }
+
+    // Prefer the configured RPC, fall back to viem's public endpoint for known chains
+    const chainConfig = this.network?.chains.find(chain => chain.chainId === chainId);
+    const knownChain = (Object.values(viemChains) as Chain[]).find(chain => chain.id === chainId);
+
+    let chain: Chain;
+    if (chainConfig) {
+      chain = defineChain({
+        ...(knownChain || {}),
+        id: chainId,
+        name: chainConfig.name,
+        nativeCurrency: chainConfig.nativeCurrency || knownChain?.nativeCurrency || { name: 'Ether', symbol: 'ETH', decimals: 18 },
+        rpcUrls: {
+          default: { http: [chainConfig.rpcUrl] }
+        },
+        ...(chainConfig.multicallAddress ? {
+          contracts: {
+            ...knownChain?.contracts,
+            multicall3: { address: chainConfig.multicallAddress }
+          }
+        } : {})
+      });
+    } else if (knownChain) {
+      chain = knownChain;
+    } else {
+      throw new WalletConnectSDKError(
+        `No RPC configured for chain ${chainId}`,
+        ErrorCodes.NETWORK_ERROR
+      );
+    }
+
+    const publicClient = createPublicClient({
+      chain,
+      transport: http(chainConfig?.rpcUrl)
+    }) as PublicClient;
+
+    this.publicClients.set(chainId, publicClient);
+    return publicClient;
+  }
+
+  private buildNamespaces(request: ConnectionRequest): {
+    requiredNamespaces: Record<string, { chains: string[]; methods: string[]; events: string[] }>;
+    optionalNamespaces: Record<string, { chains: string[]; methods: string[]; events: string[] }>;
+  } {
+    const namespace = request.namespace || 'eip155';
+    const solanaChains = request.solanaChains?.length ? request.solanaChains : [SOLANA_CHAINS.mainnet];
+    const methods = request.methods || (namespace === 'solana' ? SOLANA_METHODS : EVM_METHODS);
+    const events = request.events || (namespace === 'solana' ? [] : ['chainChanged', 'accountsChanged']);
+
+    let requiredChains: string[];
+    let optionalChains: string[] = [];
+    if (namespace === 'solana') {
+      requiredChains = solanaChains;
+    } else {
+      // Require only the chain(s) asked for, every other configured chain is optional
+      const defaultChainId = this.network?.defaultChainId || 1;
+      const requiredChainIds = request.chainIds?.length
+        ? request.chainIds
+        : [request.chainId || defaultChainId];
+      requiredChains = requiredChainIds.map(chainId => `${namespace}:${chainId}`);
+      optionalChains = (this.network?.chains || [])
+        .map(chain => `${namespace}:${chain.chainId}`)
+        .filter(chain => !requiredChains.includes(chain));
+    }
+
+    const optionalMethods = (request.optionalMethods || (namespace === 'solana' ? [] : EVM_OPTIONAL_METHODS))
+      .filter(method => !methods.includes(method));
+    const optionalEvents = (request.optionalEvents || []).filter(event => !events.includes(event));
+
+    const optionalNamespaces: Record<string, { chains: string[]; methods: string[]; events: string[] }> = {};
+    if (optionalChains.length > 0 || optionalMethods.length > 0 || optionalEvents.length > 0) {
+      optionalNamespaces[namespace] = {
+        chains: [...requiredChains, ...optionalChains],
+        methods: [...methods, ...optionalMethods],
+        events: [...events, ...optionalEvents]
+      };
+    }
+
+    // Solana clusters can ride along with an EVM pairing
+    if (namespace !== 'solana' && request.solanaChains?.length) {
+      optionalNamespaces['solana'] = {
+        chains: request.solanaChains,
+        methods: SOLANA_METHODS,
+        events: []
+      };
+    }
+
+    return {
+      requiredNamespaces: {
+        [namespace]: {
+          chains: requiredChains,
+          methods,
+          events
+        }
+      },
+      optionalNamespaces
+    };
+  }
+
+  private applyNamespaces(session: UserSession, namespaces?: Record<string, any>): void {
+    const accounts: Record<string, string[]> = {};
+
+    // Accounts are CAIP-10 strings: <namespace>:<reference>:<address>
+    for (const namespace of Object.values(namespaces || {})) {
+      for (const account of (namespace?.accounts || []) as string[]) {
+        const parts = account.split(':');
+        if (parts.length < 3) {
+          continue;
+        }
+        const chain = `${parts[0]}:${parts[1]}`;
+        const address = parts.slice(2).join(':');
+        if (!accounts[chain]) {
+          accounts[chain] = [];
+        }
+        if (!accounts[chain]!.includes(address)) {
+          accounts[chain]!.push(address);
+        }
+      }
+    }
+
+    session.accounts = accounts;
+    session.chains = Object.keys(accounts);
+
+    const evmChain = session.chains.find(chain => chain.startsWith('eip155:'));
+    if (evmChain) {
+      session.address = accounts[evmChain]![0] as Address;
+    }
+
+    const solanaChain = session.chains.find(chain => SolanaUtils.isSolanaChain(chain));
+    if (solanaChain) {
+      session.solanaAddress = accounts[solanaChain]![0]!;
+    }
+  }
+
+  private resolveSolanaChain(session: UserSession, chain?: string): string {
+    if (chain) {
+      return chain;
+    }
+    return session.chains?.find(approved => SolanaUtils.isSolanaChain(approved)) || SOLANA_CHAINS.mainnet;
+  }
+
+  private getSolanaSigner(session: UserSession, chain: string, pubkey?: string): string {
+    const signer = pubkey || session.accounts?.[chain]?.[0] || session.solanaAddress;
+    if (!signer) {
+      throw new WalletConnectSDKError(
+        `No Solana account approved for user ${session.userId}`,
+        ErrorCodes.INVALID_REQUEST
+      );
+    }
+    return signer;
+  }
+
+  private async createPendingSession(userId: string, wcClient: any, pairingTopic: string): Promise<UserSession> {
+    // Drop topics left over from a previous connection attempt
+    this.unregisterTopics(userId);
+
+    const session: UserSession = {
+      userId,
+      wcClient,
+      pairingTopic,
+      isActive: false,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      lastActivity: new Date()
+    };
+
+    this.userSessions.set(userId, session);
+    this.topicToUser.set(pairingTopic, userId);
+    await this.database.saveSession(session);
+
+    return session;
+  }
+
+  // Express a SIWE sign-in as a CACAO, the shape one-click auth returns
+  private toCacao(identity: SiweIdentity): AuthTypes.Cacao {
+    return buildAuthObject(
+      {
+        domain: identity.domain,
+        aud: identity.uri,
+        nonce: identity.nonce,
+        version: '1',
+        iat: identity.issuedAt.toISOString(),
+        chains: [`eip155:${identity.chainId}`],
+        ...(identity.expirationTime ? { exp: identity.expirationTime.toISOString() } : {}),
+        ...(identity.statement ? { statement: identity.statement } : {}),
+        ...(identity.resources ? { resources: identity.resources } : {})
+      },
+      { t: 'eip191', s: identity.signature },
+      `did:pkh:eip155:${identity.chainId}:${identity.address}`
+    );
+  }
+
+  private trackApproval(userId: string, client: any, pairingTopic: string, approval: Promise<any>): void {
+    // A later connect() replaces the pending session, its proposal must not activate the user anymore
+    const isCurrent = () => this.userSessions.get(userId)?.pairingTopic === pairingTopic;
+
+    const promise = approval.then(
+      (sessionStruct: any) => {
+        const session = this.userSessions.get(userId);
+        if (!session) {
+          throw new WalletConnectSDKError(
+            `Session for user ${userId} was removed before approval`,
+            ErrorCodes.SESSION_NOT_FOUND
+          );
+        }
+        if (!isCurrent()) {
+          this.logger.warn(`Ignoring approval of superseded proposal ${pairingTopic} for user ${userId}`);
+          throw new WalletConnectSDKError(
+            `Connection proposal ${pairingTopic} for user ${userId} was replaced by a newer one`,
+            ErrorCodes.CONNECTION_FAILED
+          );
+        }
+        this.activateSession(session, sessionStruct, client);
+        return this.toSessionInfo(session);
+      },
+      (error: any) => {
+        if (!isCurrent()) {
+          throw new WalletConnectSDKError(
+            `Connection proposal ${pairingTopic} for user ${userId} was replaced by a newer one`,
+            ErrorCodes.CONNECTION_FAILED,
+            error
+          );
+        }
+
+        this.logger.warn(`Connection proposal for user ${userId} was not approved:`, error);
+        
+        this.eventBus.emit({
+          type: 'error',
+          timestamp: new Date(),
+          userId,
+          error: error instanceof Error ? error : new Error(error?.message || 'Connection rejected'),
+          data: {
+            context: 'approval'
+          }
+        });
+
+        throw new WalletConnectSDKError(
+          error?.message || `Wallet rejected the connection for user ${userId}`,
+          ErrorCodes.CONNECTION_REJECTED,
+          error
+        );
+      }
+    );
+
+    // Nobody may be waiting on this promise, don't let a rejection go unhandled
+    promise.catch(() => undefined);
+    this.pendingApprovals.set(userId, { pairingTopic, promise });
+  }
+
+  private activateSession(session: UserSession, sessionStruct: any, client: any): void {
+    const topic: string = sessionStruct?.topic;
+
+    // Both the approval promise and the session_connect event land here
+    if (session.isActive && session.topic === topic) {
+      return;
+    }
+
+    // Update session with connection details
+    session.topic = topic;
+    session.wcClient = client;
+    session.isActive = true;
+    session.sessionData = sessionStruct;
+    session.updatedAt = new Date();
+    session.lastActivity = new Date();
+    this.topicToUser.set(topic, session.userId);
+    
+    // Get per-chain accounts from the approved namespaces
+    this.applyNamespaces(session, sessionStruct?.namespaces);
+    const accounts: string[] = Object.values(sessionStruct?.namespaces || {})
+      .flatMap((namespace: any) => namespace.accounts || []);
+    const [namespace = 'eip155', reference = '1'] = (session.chains?.[0] || 'eip155:1').split(':');
+    
+    this.logger.info(`User ${session.userId} connected successfully with address: ${session.address}`);
+    
+    this.database.saveSession(session).catch(err =>
+      this.logger.warn(`Failed to persist session for user ${session.userId}:`, err)
+    );
+    
+    this.eventBus.emit({
+      type: 'session_connect',
+      timestamp: new Date(),
+      userId: session.userId,
+      sessionId: session.userId,
+      data: {
+        topic,
+        address: session.address || '',
+        chainId: Number(reference) || 1,
+        namespace,
+        accounts: accounts,
+        chains: session.chains
+      }
+    });
+  }
+
+  private toSessionInfo(session: UserSession): SessionInfo {
+    const chains = session.chains || [];
+    const accounts = chains.flatMap(chain =>
+      (session.accounts?.[chain] || []).map(address => `${chain}:${address}`)
+    );
+    const [namespace = 'eip155', reference = '1'] = (chains[0] || 'eip155:1').split(':');
+
+    return {
+      userId: session.userId,
+      topic: session.topic || '',
+      address: session.address as Address,
+      isActive: session.isActive,
+      createdAt: session.createdAt,
+      lastActivity: session.lastActivity,
+      chainId: Number(reference) || 1,
+      namespace,
+      accounts,
+      chains
+    };
+  }
+
+  private findSessionByTopic(topic?: string): UserSession | undefined {
+    if (!topic) {
+      return undefined;
+    }
+
+    const userId = this.topicToUser.get(topic);
+    if (userId) {
+      return this.userSessions.get(userId);
+    }
+
+    for (const session of this.userSessions.values()) {
+      if (session.topic === topic || session.pairingTopic === topic) {
+        return session;
+      }
+    }
+    return undefined;
+  }
+
+  // The wallet deleted the session or it expired, forget it the way disconnect() does
+  private endSession(topic: string, reason: string): void {
+    const session = this.findSessionByTopic(topic);
+    // The user may have reconnected since, a newer session is left alone
+    if (!session || session.topic !== topic) {
+      return;
+    }
+
+    this.removeSession(session.userId).catch(err =>
+      this.logger.warn(`Failed to remove session for user ${session.userId}:`, err)
+    );
+
+    this.eventBus.emit({
+      type: 'session_disconnect',
+      timestamp: new Date(),
+      userId: session.userId,
+      sessionId: session.userId,
+      data: {
+        topic,
+        reason
+      }
+    });
+  }
+
+  private async removeSession(userId: string): Promise<void> {
+    this.userSessions.delete(userId);
+    this.pendingApprovals.delete(userId);
+    this.unregisterTopics(userId);
+    await this.database.deleteSession(userId);
+  }
+
+  private unregisterTopics(userId: string): void {
+    for (const [topic, owner] of this.topicToUser.entries()) {
+      if (owner === userId) {
+        this.topicToUser.delete(topic);
+      }
+    }
+  }
+
+  private async restoreSessions(): Promise<void> {
+    try {
+      const { data: sessions } = await this.database.getAllSessions();
+      let restored = 0;
+      
+      for (const session of sessions) {
+        if (!this.validateSession(session)) {
+          continue;
+        }
+
+        // The wallet has dropped sessions past their WalletConnect expiry (in seconds)
+        const expiry: number | undefined = session.sessionData?.expiry;
+        if (expiry && expiry * 1000 < Date.now()) {
+          this.logger.info(`Session of user ${session.userId} expired, removing it`);
+          await this.database.deleteSession(session.userId);
+          continue;
+        }
+
+        // Reattach a WalletConnect client
+        const wcClient = await this.getClientForUser(session.userId);
+
+        // Without its keys in the client storage, the session can't reach the wallet anymore
+        if (!wcClient.session.keys.includes(session.topic)) {
+          this.logger.warn(`WalletConnect keys of user ${session.userId} are missing, removing the session`);
+          await this.database.deleteSession(session.userId);
+          continue;
+        }
+
+        session.wcClient = wcClient;
+        session.isActive = true;
+        this.applyNamespaces(session, session.sessionData?.namespaces);
+        
+        this.userSessions.set(session.userId, session);
+        if (session.topic) {
+          this.topicToUser.set(session.topic, session.userId);
+        }
+        if (session.pairingTopic) {
+          this.topicToUser.set(session.pairingTopic, session.userId);
+        }
+        restored++;
+        this.logger.info(`Restored session for user ${session.userId}`);
+      }
+      
+      this.logger.info(`Restored ${restored} of ${sessions.length} sessions`);
+    } catch (error) {
+      this.logger.error('Failed to restore sessions:', error);
+    }
+  }
+}
@@ -3,14 +3,31 @@ export { WalletConnectSDK } from './core/WalletConnectSDK';
 
 // Types
 export * from './types';
+export type { QueryOptions, QueryResult } from './types/database';
 
 // Utilities
 export { EventBus } from './utils/EventBus';
 export { DefaultLogger, FileLogger, SilentLogger } from './utils/Logger';
+export { TimeoutManager, TimeoutError, TimeoutUtils } from './utils/TimeoutManager';
+export { NonceManager } from './utils/NonceManager';
+export { FeeEstimator } from './utils/FeeEstimator';
+export { SignatureVerifier } from './utils/SignatureVerifier';
+export { TypedDataUtils } from './utils/TypedData';
+export { SOLANA_CHAINS, SOLANA_METHODS, SolanaUtils } from './utils/Solana';
+
+// Modules
+export { TokenModule } from './modules/TokenModule';
+export { NftModule } from './modules/NftModule';
 
 // Storage Adapters
 export { MemoryStorage } from './storage/MemoryStorage';
+export { RedisStorage } from './storage/RedisStorage';
+export { MemoryDatabase } from './storage/MemoryDatabase';
 export { SQLiteDatabase } from './storage/SQLiteDatabase';
+export { PostgreSQLDatabase } from './storage/PostgreSQLDatabase';
+export { MySQLDatabase } from './storage/MySQLDatabase';
+export { MongoDBDatabase } from './storage/MongoDBDatabase';
+export { DatabaseFactory } from './storage/DatabaseFactory';
 
 // Default export
 import { WalletConnectSDK } from './core/WalletConnectSDK';
@@ -0,0 +1,32 @@
+import { Address } from 'viem';
+import { ErrorCodes, ModuleWriteOptions, SDKModuleContext, WalletConnectSDKError } from '../types';
+
+// Helpers shared by the token and NFT modules
+export const ModuleUtils = {
+  // Read calls take an explicit owner or the address of a connected user
+  resolveOwner: async (
+    context: SDKModuleContext,
+    request: { owner?: Address; userId?: string; chainId?: number }
+  ): Promise<{ owner: Address; chainId: number }> => {
+    if (request.owner) {
+      return { owner: request.owner, chainId: request.chainId || context.getDefaultChainId() };
+    }
+    if (!request.userId) {
+      throw new WalletConnectSDKError(
+        'Either owner or userId is required',
+        ErrorCodes.INVALID_REQUEST
+      );
+    }
+
+    const { address, chainId } = await context.getAccount(request.userId, request.chainId);
+    return { owner: address, chainId };
+  },
+
+  // The callContract options a module write passes through
+  writeOptions: (request: ModuleWriteOptions) => ({
+    userId: request.userId,
+    ...(request.speed ? { speed: request.speed } : {}),
+    ...(request.waitForReceipt !== undefined ? { waitForReceipt: request.waitForReceipt } : {}),
+    ...(request.confirmations !== undefined ? { confirmations: request.confirmations } : {})
+  })
+};
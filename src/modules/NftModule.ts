@@ -0,0 +1,381 @@
+import { lookup, LookupAddress } from 'dns';
+import { get as httpGet, IncomingMessage } from 'http';
+import { get as httpsGet } from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { Address, erc1155Abi, erc721Abi, parseAbi } from 'viem';
+import {
+  ContractCallResponse,
+  ErrorCodes,
+  NftApprovalRequest,
+  NftBalanceRequest,
+  NftConfig,
+  NftMetadata,
+  NftOperatorRequest,
+  NftStandard,
+  NftToken,
+  NftTokenRequest,
+  NftTransferRequest,
+  SDKModuleContext,
+  WalletConnectSDKError
+} from '../types';
+import { ModuleUtils } from './ModuleUtils';
+
+const DEFAULT_IPFS_GATEWAY = 'https://ipfs.io/ipfs/';
+const DEFAULT_METADATA_TIMEOUT = 10 * 1000;
+const DEFAULT_MAX_METADATA_SIZE = 1024 * 1024;
+const MAX_METADATA_REDIRECTS = 3;
+
+// Token URIs are chosen by whoever deployed the contract, they must not reach hosts on our own network
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+const isPrivateAddress = ({ address, family }: LookupAddress): boolean =>
+  PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+
+// Resolves metadata hosts for the socket itself, so the address checked is the one connected to.
+// Checking first and letting the request resolve again would let a rebinding DNS server answer differently
+const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    const blocked = addresses.find(isPrivateAddress);
+    if (blocked) {
+      callback(new Error(`Metadata host ${hostname} resolves to the non-public address ${blocked.address}`), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0]!.address, addresses[0]!.family);
+    }
+  });
+};
+
+// ERC-165 interface ids
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+const ERC1155_INTERFACE_ID = '0xd9b67a26';
+
+const ERC165_ABI = parseAbi(['function supportsInterface(bytes4 interfaceId) view returns (bool)']);
+
+// ERC-721 and ERC-1155 reads through the public RPC, transfers and approvals through the user's wallet
+export class NftModule {
+  private context: SDKModuleContext;
+  private config: NftConfig;
+  private standards: Map<string, Promise<NftStandard>> = new Map();
+
+  constructor(context: SDKModuleContext, config: NftConfig = {}) {
+    this.context = context;
+    this.config = config;
+  }
+
+  // Detect whether a contract is ERC-721 or ERC-1155 through ERC-165, cached per chain and address
+  async getStandard(contract: Address, chainId?: number): Promise<NftStandard> {
+    const targetChainId = chainId || this.context.getDefaultChainId();
+    const key = `${targetChainId}:${contract.toLowerCase()}`;
+
+    let cached = this.standards.get(key);
+    if (!cached) {
+      cached = this.detectStandard(contract, targetChainId);
+      this.standards.set(key, cached);
+      cached.catch(() => this.standards.delete(key));
+    }
+    return cached;
+  }
+
+  // Owner of an ERC-721 token
+  async ownerOf(request: NftTokenRequest): Promise<Address> {
+    const chainId = request.chainId || this.context.getDefaultChainId();
+    return this.context.getPublicClient(chainId).readContract({
+      address: request.contract,
+      abi: erc721Abi,
+      functionName: 'ownerOf',
+      args: [request.tokenId]
+    });
+  }
+
+  // Number of tokens held: per collection for ERC-721, per token id for ERC-1155
+  async balanceOf(request: NftBalanceRequest): Promise<bigint> {
+    const { owner, chainId } = await ModuleUtils.resolveOwner(this.context, request);
+    const standard = request.standard || await this.getStandard(request.contract, chainId);
+    const client = this.context.getPublicClient(chainId);
+
+    if (standard === 'erc721') {
+      return client.readContract({
+        address: request.contract,
+        abi: erc721Abi,
+        functionName: 'balanceOf',
+        args: [owner]
+      });
+    }
+
+    if (request.tokenId === undefined) {
+      throw new WalletConnectSDKError(
+        'tokenId is required for ERC-1155 balances',
+        ErrorCodes.INVALID_REQUEST
+      );
+    }
+    return client.readContract({
+      address: request.contract,
+      abi: erc1155Abi,
+      functionName: 'balanceOf',
+      args: [owner, request.tokenId]
+    });
+  }
+
+  // tokenURI (ERC-721) or uri (ERC-1155) with the {id} placeholder substituted
+  async getTokenUri(request: NftTokenRequest): Promise<string> {
+    const chainId = request.chainId || this.context.getDefaultChainId();
+    const standard = request.standard || await this.getStandard(request.contract, chainId);
+    const client = this.context.getPublicClient(chainId);
+
+    if (standard === 'erc721') {
+      return client.readContract({
+        address: request.contract,
+        abi: erc721Abi,
+        functionName: 'tokenURI',
+        args: [request.tokenId]
+      });
+    }
+
+    const uri = await client.readContract({
+      address: request.contract,
+      abi: erc1155Abi,
+      functionName: 'uri',
+      args: [request.tokenId]
+    });
+    // ERC-1155: lowercase hex id, zero-padded to 64 characters, no 0x prefix
+    return uri.replace(/\{id\}/g, request.tokenId.toString(16).padStart(64, '0'));
+  }
+
+  /**
+   * Read the token URI and load its metadata JSON.
+   * ipfs:// URIs go through the configured gateway and data: URIs are decoded in place.
+   * Metadata failures are reported in `error` rather than thrown.
+   */
+  async getNftMetadata(request: NftTokenRequest): Promise<NftToken> {
+    const chainId = request.chainId || this.context.getDefaultChainId();
+    const standard = request.standard || await this.getStandard(request.contract, chainId);
+    const tokenUri = await this.getTokenUri({ ...request, chainId, standard });
+
+    const token: NftToken = {
+      contract: request.contract,
+      chainId,
+      tokenId: request.tokenId,
+      standard,
+      tokenUri
+    };
+
+    try {
+      const metadataUrl = this.resolveUri(tokenUri);
+      token.metadataUrl = metadataUrl;
+      token.metadata = await this.loadMetadata(metadataUrl);
+      if (typeof token.metadata.image === 'string') {
+        token.imageUrl = this.resolveUri(token.metadata.image);
+      }
+    } catch (error) {
+      this.context.logger.warn(`Failed to load metadata of token ${request.tokenId} on ${request.contract}:`, error);
+      token.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return token;
+  }
+
+  async isApprovedForAll(request: NftOperatorRequest): Promise<boolean> {
+    const { owner, chainId } = await ModuleUtils.resolveOwner(this.context, request);
+
+    // Same signature in ERC-721 and ERC-1155
+    return this.context.getPublicClient(chainId).readContract({
+      address: request.contract,
+      abi: erc721Abi,
+      functionName: 'isApprovedForAll',
+      args: [owner, request.operator]
+    });
+  }
+
+  async safeTransferFrom(request: NftTransferRequest): Promise<ContractCallResponse> {
+    try {
+      const { address, chainId } = await this.context.getAccount(request.userId, request.chainId);
+      const standard = request.standard || await this.getStandard(request.contract, chainId);
+      const from = request.from || address;
+
+      if (standard === 'erc721') {
+        return await this.context.callContract({
+          ...ModuleUtils.writeOptions(request),
+          contract: { address: request.contract, abi: [...erc721Abi], chainId },
+          functionName: 'safeTransferFrom',
+          args: request.data
+            ? [from, request.to, request.tokenId, request.data]
+            : [from, request.to, request.tokenId]
+        });
+      }
+
+      return await this.context.callContract({
+        ...ModuleUtils.writeOptions(request),
+        contract: { address: request.contract, abi: [...erc1155Abi], chainId },
+        functionName: 'safeTransferFrom',
+        args: [from, request.to, request.tokenId, request.amount ?? 1n, request.data || '0x']
+      });
+    } catch (error) {
+      this.context.logger.error(`Failed to transfer token ${request.tokenId} on ${request.contract} for user ${request.userId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async setApprovalForAll(request: NftApprovalRequest): Promise<ContractCallResponse> {
+    try {
+      const { chainId } = await this.context.getAccount(request.userId, request.chainId);
+
+      return await this.context.callContract({
+        ...ModuleUtils.writeOptions(request),
+        contract: { address: request.contract, abi: [...erc721Abi], chainId },
+        functionName: 'setApprovalForAll',
+        args: [request.operator, request.approved]
+      });
+    } catch (error) {
+      this.context.logger.error(`Failed to set operator ${request.operator} on ${request.contract} for user ${request.userId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // Turn ipfs:// and ar:// URIs into gateway URLs, other URIs are returned as is
+  resolveUri(uri: string): string {
+    const gateway = this.config.ipfsGateway || DEFAULT_IPFS_GATEWAY;
+    const base = gateway.endsWith('/') ? gateway : `${gateway}/`;
+
+    if (uri.startsWith('ipfs://')) {
+      // Both ipfs://<cid>/... and the older ipfs://ipfs/<cid>/... are in use
+      return `${base}${uri.slice('ipfs://'.length).replace(/^ipfs\//, '')}`;
+    }
+    if (uri.startsWith('ar://')) {
+      return `https://arweave.net/${uri.slice('ar://'.length)}`;
+    }
+    return uri;
+  }
+
+  private async detectStandard(contract: Address, chainId: number): Promise<NftStandard> {
+    const client = this.context.getPublicClient(chainId);
+    const supports = (interfaceId: `0x${string}`) =>
+      client.readContract({
+        address: contract,
+        abi: ERC165_ABI,
+        functionName: 'supportsInterface',
+        args: [interfaceId]
+      }).catch(() => false);
+
+    const [isErc721, isErc1155] = await Promise.all([
+      supports(ERC721_INTERFACE_ID),
+      supports(ERC1155_INTERFACE_ID)
+    ]);
+
+    if (isErc1155) {
+      return 'erc1155';
+    }
+    if (isErc721) {
+      return 'erc721';
+    }
+    throw new WalletConnectSDKError(
+      `Contract ${contract} on chain ${chainId} implements neither ERC-721 nor ERC-1155, pass standard explicitly`,
+      ErrorCodes.INVALID_REQUEST
+    );
+  }
+
+  private async loadMetadata(url: string): Promise<NftMetadata> {
+    // On-chain metadata: data:application/json;base64,... or data:application/json,...
+    if (url.startsWith('data:')) {
+      const comma = url.indexOf(',');
+      const header = url.slice(0, comma);
+      const payload = url.slice(comma + 1);
+      const json = header.endsWith(';base64')
+        ? Buffer.from(payload, 'base64').toString('utf8')
+        : decodeURIComponent(payload);
+      return JSON.parse(json) as NftMetadata;
+    }
+
+    const signal = AbortSignal.timeout(this.config.metadataTimeout || DEFAULT_METADATA_TIMEOUT);
+
+    // Redirects are followed by hand so every hop is checked
+    let target = url;
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.request(target, signal);
+      const status = response.statusCode || 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.destroy();
+        if (redirects >= MAX_METADATA_REDIRECTS) {
+          throw new Error(`Metadata request to ${url} was redirected too many times`);
+        }
+        target = new URL(location, target).toString();
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.destroy();
+        throw new Error(`Metadata request to ${target} failed with status ${status}`);
+      }
+      return JSON.parse(await this.readLimited(response, target)) as NftMetadata;
+    }
+  }
+
+  // Only http(s) URLs on public hosts are fetched, the configured IPFS gateway is trusted as is
+  private request(url: string, signal: AbortSignal): Promise<IncomingMessage> {
+    const gateway = this.config.ipfsGateway || DEFAULT_IPFS_GATEWAY;
+    const trusted = url.startsWith(gateway.endsWith('/') ? gateway : `${gateway}/`);
+
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return Promise.reject(new Error(`Unsupported metadata URL scheme ${protocol}`));
+    }
+
+    // Sockets don't look up IP literals, those are checked here
+    const host = hostname.replace(/^\[|\]$/g, '');
+    if (!trusted && isIP(host) && isPrivateAddress({ address: host, family: isIP(host) })) {
+      return Promise.reject(new Error(`Metadata host ${hostname} resolves to the non-public address ${host}`));
+    }
+
+    const get = protocol === 'https:' ? httpsGet : httpGet;
+    return new Promise((resolve, reject) => {
+      get(url, { signal, ...(trusted ? {} : { lookup: publicLookup }) }, resolve).on('error', reject);
+    });
+  }
+
+  // Read a response body, giving up once it exceeds the configured size
+  private async readLimited(response: IncomingMessage, url: string): Promise<string> {
+    const limit = this.config.maxMetadataSize || DEFAULT_MAX_METADATA_SIZE;
+    const tooLarge = () => new Error(`Metadata at ${url} is larger than ${limit} bytes`);
+
+    if (Number(response.headers['content-length']) > limit) {
+      response.destroy();
+      throw tooLarge();
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response) {
+      size += chunk.length;
+      if (size > limit) {
+        response.destroy();
+        throw tooLarge();
+      }
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+}
@@ -0,0 +1,269 @@
+import { Address, erc20Abi, formatUnits, hexToString, maxUint256, parseAbi, parseUnits, PublicClient } from 'viem';
+import {
+  ContractCallResponse,
+  ErrorCodes,
+  SDKModuleContext,
+  TokenAllowanceRequest,
+  TokenAmount,
+  TokenApproveRequest,
+  TokenApproveResponse,
+  TokenBalanceRequest,
+  TokenMetadata,
+  TokenTransferRequest,
+  WalletConnectSDKError
+} from '../types';
+import { ModuleUtils } from './ModuleUtils';
+
+// Older tokens such as MKR return name and symbol as bytes32
+const BYTES32_METADATA_ABI = parseAbi([
+  'function name() view returns (bytes32)',
+  'function symbol() view returns (bytes32)'
+]);
+
+// ERC-20 reads through the public RPC, approvals and transfers through the user's wallet
+export class TokenModule {
+  private context: SDKModuleContext;
+  private metadata: Map<string, Promise<TokenMetadata>> = new Map();
+
+  constructor(context: SDKModuleContext) {
+    this.context = context;
+  }
+
+  // Get decimals, symbol and name of a token, cached per chain and address
+  async getTokenMetadata(token: Address, chainId?: number): Promise<TokenMetadata> {
+    const targetChainId = chainId || this.context.getDefaultChainId();
+    const key = `${targetChainId}:${token.toLowerCase()}`;
+
+    let cached = this.metadata.get(key);
+    if (!cached) {
+      cached = this.fetchMetadata(token, targetChainId);
+      this.metadata.set(key, cached);
+      // Don't cache failures, the RPC may have been down
+      cached.catch(() => this.metadata.delete(key));
+    }
+    return cached;
+  }
+
+  async getTokenBalance(request: TokenBalanceRequest): Promise<TokenAmount> {
+    const { owner, chainId } = await ModuleUtils.resolveOwner(this.context, request);
+    const metadata = await this.getTokenMetadata(request.token, chainId);
+
+    const balance = await this.context.getPublicClient(chainId).readContract({
+      address: request.token,
+      abi: erc20Abi,
+      functionName: 'balanceOf',
+      args: [owner]
+    });
+
+    return this.toAmount(balance, metadata);
+  }
+
+  async getAllowance(request: TokenAllowanceRequest): Promise<TokenAmount> {
+    const { owner, chainId } = await ModuleUtils.resolveOwner(this.context, request);
+    const metadata = await this.getTokenMetadata(request.token, chainId);
+
+    const allowance = await this.context.getPublicClient(chainId).readContract({
+      address: request.token,
+      abi: erc20Abi,
+      functionName: 'allowance',
+      args: [owner, request.spender]
+    });
+
+    return this.toAmount(allowance, metadata);
+  }
+
+  /**
+   * Approve a spender for an exact amount or an unlimited one.
+   * Tokens such as USDT revert when changing a non-zero allowance to another
+   * non-zero value, those get an approve(spender, 0) first.
+   */
+  async approve(request: TokenApproveRequest): Promise<TokenApproveResponse> {
+    try {
+      const { address: owner, chainId } = await this.context.getAccount(request.userId, request.chainId);
+      const metadata = await this.getTokenMetadata(request.token, chainId);
+
+      const mode = request.mode || 'exact';
+      if (mode === 'exact' && request.amount === undefined) {
+        throw new WalletConnectSDKError(
+          'amount is required for an exact approval',
+          ErrorCodes.INVALID_REQUEST
+        );
+      }
+      const amount = mode === 'infinite' ? maxUint256 : this.parseAmount(request.amount!, metadata);
+
+      const current = await this.context.getPublicClient(chainId).readContract({
+        address: request.token,
+        abi: erc20Abi,
+        functionName: 'allowance',
+        args: [owner, request.spender]
+      });
+
+      if (current === amount) {
+        this.context.logger.info(`Allowance of ${request.spender} for ${metadata.symbol} is already ${this.toAmount(amount, metadata).formatted}`);
+        return { success: true, status: 'confirmed' };
+      }
+
+      const resetToZero = request.resetToZero ?? 'auto';
+      const needsReset = current > 0n && amount > 0n;
+
+      if (needsReset && resetToZero === true) {
+        return this.resetAndApprove(request, chainId, amount);
+      }
+
+      const response = await this.sendApprove(request, chainId, amount);
+
+      // A reverting simulation with an allowance already set is the USDT pattern
+      if (!response.success && needsReset && resetToZero === 'auto' && response.simulation?.success === false) {
+        this.context.logger.info(`Approve of ${metadata.symbol} would revert with a non-zero allowance, resetting to zero first`);
+        return this.resetAndApprove(request, chainId, amount);
+      }
+
+      return response;
+    } catch (error) {
+      this.context.logger.error(`Failed to approve ${request.spender} on ${request.token} for user ${request.userId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  async transfer(request: TokenTransferRequest): Promise<ContractCallResponse> {
+    try {
+      const { chainId } = await this.context.getAccount(request.userId, request.chainId);
+      const metadata = await this.getTokenMetadata(request.token, chainId);
+
+      return await this.context.callContract({
+        ...ModuleUtils.writeOptions(request),
+        contract: { address: request.token, abi: [...erc20Abi], chainId },
+        functionName: 'transfer',
+        args: [request.to, this.parseAmount(request.amount, metadata)]
+      });
+    } catch (error) {
+      this.context.logger.error(`Failed to transfer ${request.token} for user ${request.userId}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
+  // Parse a decimal string (e.g. '1.5') into base units, bigints are taken as base units already
+  async parseTokenAmount(token: Address, amount: string | bigint, chainId?: number): Promise<bigint> {
+    return this.parseAmount(amount, await this.getTokenMetadata(token, chainId));
+  }
+
+  // Format base units with the token's decimals
+  async formatTokenAmount(token: Address, amount: bigint, chainId?: number): Promise<TokenAmount> {
+    return this.toAmount(amount, await this.getTokenMetadata(token, chainId));
+  }
+
+  // Forget cached metadata for a token, or for every token
+  clearCache(token?: Address, chainId?: number): void {
+    if (token) {
+      this.metadata.delete(`${chainId || this.context.getDefaultChainId()}:${token.toLowerCase()}`);
+    } else {
+      this.metadata.clear();
+    }
+  }
+
+  private async fetchMetadata(token: Address, chainId: number): Promise<TokenMetadata> {
+    const client = this.context.getPublicClient(chainId);
+
+    // Chains with a known Multicall3 deployment read all three in one eth_call
+    if (client.chain?.contracts?.multicall3) {
+      const [decimals, name, symbol] = await client.multicall({
+        contracts: [
+          { address: token, abi: erc20Abi, functionName: 'decimals' },
+          { address: token, abi: erc20Abi, functionName: 'name' },
+          { address: token, abi: erc20Abi, functionName: 'symbol' }
+        ],
+        allowFailure: true
+      });
+      if (decimals.status === 'failure') {
+        throw decimals.error;
+      }
+
+      return {
+        address: token,
+        chainId,
+        name: name.status === 'success' ? name.result : await this.readBytes32(client, token, 'name'),
+        symbol: symbol.status === 'success' ? symbol.result : await this.readBytes32(client, token, 'symbol'),
+        decimals: decimals.result
+      };
+    }
+
+    const [decimals, name, symbol] = await Promise.all([
+      client.readContract({ address: token, abi: erc20Abi, functionName: 'decimals' }),
+      this.readText(client, token, 'name'),
+      this.readText(client, token, 'symbol')
+    ]);
+
+    return { address: token, chainId, name, symbol, decimals };
+  }
+
+  private async readText(client: PublicClient, token: Address, functionName: 'name' | 'symbol'): Promise<string> {
+    try {
+      return await client.readContract({ address: token, abi: erc20Abi, functionName });
+    } catch {
+      return this.readBytes32(client, token, functionName);
+    }
+  }
+
+  private async readBytes32(client: PublicClient, token: Address, functionName: 'name' | 'symbol'): Promise<string> {
+    try {
+      const raw = await client.readContract({ address: token, abi: BYTES32_METADATA_ABI, functionName });
+      return hexToString(raw, { size: 32 }).replace(/\0+$/, '');
+    } catch {
+      // Both are optional in ERC-20
+      return '';
+    }
+  }
+
+  private async resetAndApprove(request: TokenApproveRequest, chainId: number, amount: bigint): Promise<TokenApproveResponse> {
+    // The second approve only passes simulation once the reset is mined
+    const reset = await this.sendApprove({ ...request, waitForReceipt: true }, chainId, 0n);
+    if (!reset.success || reset.status !== 'confirmed') {
+      return {
+        success: false,
+        error: `Failed to reset allowance to zero: ${reset.error || reset.status}`,
+        reset
+      };
+    }
+
+    return { ...(await this.sendApprove(request, chainId, amount)), reset };
+  }
+
+  private sendApprove(request: TokenApproveRequest, chainId: number, amount: bigint): Promise<ContractCallResponse> {
+    return this.context.callContract({
+      ...ModuleUtils.writeOptions(request),
+      contract: { address: request.token, abi: [...erc20Abi], chainId },
+      functionName: 'approve',
+      args: [request.spender, amount]
+    });
+  }
+
+  private parseAmount(amount: string | bigint, metadata: TokenMetadata): bigint {
+    if (typeof amount === 'bigint') {
+      return amount;
+    }
+
+    const [, fraction = ''] = amount.split('.');
+    if (!/^\d+(\.\d+)?$/.test(amount) || fraction.length > metadata.decimals) {
+      throw new WalletConnectSDKError(
+        `Invalid ${metadata.symbol || 'token'} amount '${amount}' (${metadata.decimals} decimals)`,
+        ErrorCodes.INVALID_REQUEST
+      );
+    }
+    return parseUnits(amount, metadata.decimals);
+  }
+
+  private toAmount(raw: bigint, metadata: TokenMetadata): TokenAmount {
+    return {
+      raw,
+      formatted: formatUnits(raw, metadata.decimals),
+      decimals: metadata.decimals,
+      symbol: metadata.symbol
+    };
+  }
+}
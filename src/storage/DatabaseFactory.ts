@@ -0,0 +1,67 @@
+import { DatabaseAdapter, DatabaseConfig } from '../types/database';
+import { WalletConnectSDKError, ErrorCodes } from '../types';
+import { MemoryDatabase } from './MemoryDatabase';
+import { SQLiteDatabase } from './SQLiteDatabase';
+import { PostgreSQLDatabase } from './PostgreSQLDatabase';
+import { MySQLDatabase } from './MySQLDatabase';
+import { MongoDBDatabase } from './MongoDBDatabase';
+
+// Builds the database adapter for a DatabaseConfig
+export class DatabaseFactory {
+  static create(config?: DatabaseConfig): DatabaseAdapter {
+    if (!config) {
+      return new MemoryDatabase();
+    }
+
+    // Configurations in the older untyped shape (LegacyDatabaseConfig) carry the same fields, unchecked
+    switch (config.type) {
+      case 'memory':
+        return new MemoryDatabase(config.options ? { options: config.options } : {});
+      case 'sqlite':
+        return new SQLiteDatabase({
+          databasePath: DatabaseFactory.require(
+            config.type,
+            'databasePath',
+            'databasePath' in config ? config.databasePath : config.connectionString
+          ),
+          ...(config.options ? { options: config.options } : {})
+        });
+      case 'postgresql':
+        return new PostgreSQLDatabase({
+          connectionString: DatabaseFactory.require(config.type, 'connectionString', config.connectionString),
+          ...(config.options ? { options: config.options } : {})
+        });
+      case 'mysql':
+        return new MySQLDatabase({
+          connectionString: DatabaseFactory.require(config.type, 'connectionString', config.connectionString),
+          ...(config.options ? { options: config.options } : {})
+        });
+      case 'mongodb':
+        return new MongoDBDatabase({
+          connectionString: DatabaseFactory.require(config.type, 'connectionString', config.connectionString),
+          ...('databaseName' in config && config.databaseName ? { databaseName: config.databaseName } : {}),
+          ...(config.options ? { options: config.options } : {})
+        });
+      default:
+        throw new WalletConnectSDKError(
+          `Unknown database type '${(config as { type: string }).type}'`,
+          ErrorCodes.DATABASE_ERROR
+        );
+    }
+  }
+
+  private static require(type: string, field: string, value: string | undefined): string {
+    if (!value) {
+      throw new WalletConnectSDKError(
+        `Database type '${type}' requires ${field}`,
+        ErrorCodes.DATABASE_ERROR
+      );
+    }
+    return value;
+  }
+
+  // Whether sessions stored with this configuration outlive the process
+  static isPersistent(config?: DatabaseConfig): boolean {
+    return config !== undefined && config.type !== 'memory';
+  }
+}
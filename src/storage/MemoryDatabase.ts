@@ -0,0 +1,213 @@
+import { DatabaseAdapter, QueryOptions, QueryResult, DatabaseHealth, DatabaseEvent, MemoryConfig } from '../types/database';
+import { UserSession, TransactionRecord } from '../types';
+
+const DEFAULT_SESSION_TIMEOUT = 24 * 60 * 60 * 1000; // 24 hours
+
+// In-process database, nothing survives a restart
+export class MemoryDatabase implements DatabaseAdapter {
+  private sessions: Map<string, UserSession> = new Map();
+  private transactions: Map<string, TransactionRecord> = new Map();
+  private isConnectedFlag = false;
+  private eventHandlers: Map<string, ((event: DatabaseEvent) => void)[]> = new Map();
+  private maxSize: number | undefined;
+  private sessionTimeout: number;
+
+  constructor(config: Omit<MemoryConfig, 'type'> = {}) {
+    this.maxSize = config.options?.maxSize;
+    // ttl is in seconds, like the other memory options
+    this.sessionTimeout = config.options?.ttl ? config.options.ttl * 1000 : DEFAULT_SESSION_TIMEOUT;
+  }
+
+  async connect(): Promise<void> {
+    this.isConnectedFlag = true;
+    this.emitEvent({
+      type: 'connect',
+      timestamp: new Date()
+    });
+  }
+
+  async disconnect(): Promise<void> {
+    this.isConnectedFlag = false;
+    this.emitEvent({
+      type: 'disconnect',
+      timestamp: new Date()
+    });
+  }
+
+  isConnected(): boolean {
+    return this.isConnectedFlag;
+  }
+
+  async saveSession(session: UserSession): Promise<void> {
+    this.sessions.set(session.userId, session);
+
+    // Over maxSize, drop the least recently active sessions
+    if (this.maxSize && this.sessions.size > this.maxSize) {
+      const oldest = Array.from(this.sessions.values())
+        .sort((a, b) => a.lastActivity.getTime() - b.lastActivity.getTime())
+        .slice(0, this.sessions.size - this.maxSize);
+      for (const evicted of oldest) {
+        this.sessions.delete(evicted.userId);
+      }
+    }
+  }
+
+  async getSession(userId: string): Promise<UserSession | null> {
+    return this.sessions.get(userId) || null;
+  }
+
+  async getAllSessions(options?: QueryOptions): Promise<QueryResult<UserSession>> {
+    return this.query(Array.from(this.sessions.values()), options, 'ASC');
+  }
+
+  async updateSession(userId: string, updates: Partial<UserSession>): Promise<void> {
+    const session = this.sessions.get(userId);
+    if (session) {
+      Object.assign(session, updates);
+      this.sessions.set(userId, session);
+    }
+  }
+
+  async deleteSession(userId: string): Promise<void> {
+    this.sessions.delete(userId);
+  }
+
+  async saveTransactionRecord(record: TransactionRecord): Promise<void> {
+    this.transactions.set(record.id, { ...record });
+  }
+
+  async updateTransactionRecord(id: string, updates: Partial<TransactionRecord>): Promise<void> {
+    const record = this.transactions.get(id);
+    if (record) {
+      Object.assign(record, updates);
+    }
+  }
+
+  async getTransactionHistory(userId: string, options?: QueryOptions): Promise<QueryResult<TransactionRecord>> {
+    const records = Array.from(this.transactions.values())
+      .filter(record => record.userId === userId);
+
+    return this.query(records, { orderBy: 'createdAt', ...options }, 'DESC');
+  }
+
+  async cleanupExpiredSessions(timeout: number = this.sessionTimeout): Promise<number> {
+    const cutoff = Date.now() - timeout;
+    let deletedCount = 0;
+
+    for (const [userId, session] of this.sessions.entries()) {
+      if (!session.isActive || session.lastActivity.getTime() < cutoff) {
+        this.sessions.delete(userId);
+        deletedCount++;
+      }
+    }
+
+    this.emitEvent({
+      type: 'cleanup',
+      timestamp: new Date(),
+      data: { deletedCount }
+    });
+
+    return deletedCount;
+  }
+
+  async getHealth(): Promise<DatabaseHealth> {
+    return {
+      isConnected: this.isConnectedFlag,
+      responseTime: 0,
+      activeConnections: this.isConnectedFlag ? 1 : 0,
+      totalSessions: this.sessions.size,
+      timestamp: new Date()
+    };
+  }
+
+  async backup(): Promise<string> {
+    const backup = {
+      sessions: Array.from(this.sessions.values()).map(({ wcClient: _wcClient, ...session }) => session),
+      timestamp: new Date().toISOString(),
+      version: '1.0'
+    };
+
+    return JSON.stringify(backup, null, 2);
+  }
+
+  async restore(backup: string): Promise<void> {
+    const data = JSON.parse(backup);
+
+    this.sessions.clear();
+    for (const session of data.sessions) {
+      await this.saveSession({
+        ...session,
+        createdAt: new Date(session.createdAt),
+        updatedAt: new Date(session.updatedAt),
+        lastActivity: new Date(session.lastActivity),
+        wcClient: null
+      });
+    }
+
+    this.emitEvent({
+      type: 'migration',
+      timestamp: new Date(),
+      data: { action: 'restore_backup', sessionCount: data.sessions.length }
+    });
+  }
+
+  async migrate(): Promise<void> {
+    // Nothing to migrate in memory
+  }
+
+  on(event: string, callback: (event: DatabaseEvent) => void): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  off(event: string, callback: (event: DatabaseEvent) => void): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  // Apply where, ORDER BY, LIMIT and OFFSET the way the SQL adapters do
+  private query<T>(items: T[], options: QueryOptions | undefined, defaultDirection: 'ASC' | 'DESC'): QueryResult<T> {
+    const filtered = items.filter(item => Object.entries(options?.where || {})
+      .every(([key, value]) => (item as any)[key] === value));
+
+    if (options?.orderBy) {
+      const key = options.orderBy;
+      const direction = (options.orderDirection || defaultDirection) === 'ASC' ? 1 : -1;
+      filtered.sort((a, b) => {
+        const left = (a as any)[key] instanceof Date ? (a as any)[key].getTime() : (a as any)[key];
+        const right = (b as any)[key] instanceof Date ? (b as any)[key].getTime() : (b as any)[key];
+        return left === right ? 0 : (left > right ? direction : -direction);
+      });
+    }
+
+    const offset = options?.offset || 0;
+    const data = options?.limit ? filtered.slice(offset, offset + options.limit) : filtered.slice(offset);
+
+    return {
+      data,
+      total: filtered.length,
+      limit: options?.limit || data.length,
+      offset
+    };
+  }
+
+  private emitEvent(event: DatabaseEvent): void {
+    const handlers = this.eventHandlers.get(event.type);
+    if (handlers) {
+      for (const handler of handlers) {
+        try {
+          handler(event);
+        } catch (error) {
+          console.error('Error in database event handler:', error);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,635 @@
+import { Connection, createConnection, Model, Schema, SortOrder } from 'mongoose';
+import { DatabaseAdapter, QueryOptions, QueryResult, DatabaseHealth, DatabaseEvent, DatabasePoolStats, MongoDBConfig } from '../types/database';
+import { UserSession, TransactionRecord } from '../types';
+
+const DEFAULT_SESSION_TTL = 24 * 60 * 60; // 24 hours, in seconds
+
+// The driver's default maxPoolSize
+const DEFAULT_MAX_POOL_SIZE = 100;
+
+/**
+ * DatabaseSession fields, with BSON dates since TTL indexes only expire Date values,
+ * and sessionData kept as a subdocument so `where` can query into it.
+ */
+function createSessionSchema(ttl: number): Schema {
+  const schema = new Schema({
+    userId: { type: String, required: true, unique: true },
+    topic: { type: String, index: true },
+    address: { type: String, index: true },
+    sessionData: Schema.Types.Mixed,
+    isActive: { type: Boolean, required: true, default: true, index: true },
+    createdAt: { type: Date, required: true },
+    updatedAt: { type: Date, required: true },
+    lastActivity: { type: Date, required: true },
+    chainId: Number,
+    namespace: String
+  }, { versionKey: false, strictQuery: 'throw' });
+
+  // MongoDB's TTL monitor removes sessions idle for longer than ttl, roughly once a minute
+  schema.index({ lastActivity: 1 }, { expireAfterSeconds: ttl });
+  return schema;
+}
+
+function createTransactionSchema(): Schema {
+  const schema = new Schema({
+    id: { type: String, required: true, unique: true },
+    userId: { type: String, required: true },
+    type: { type: String, required: true },
+    chainId: Number,
+    request: { type: Schema.Types.Mixed, required: true },
+    hash: { type: String, index: true },
+    signature: String,
+    status: { type: String, required: true },
+    error: String,
+    createdAt: { type: Date, required: true },
+    updatedAt: { type: Date, required: true }
+  }, { versionKey: false, strictQuery: 'throw' });
+
+  schema.index({ userId: 1, createdAt: -1 });
+  return schema;
+}
+
+export class MongoDBDatabase implements DatabaseAdapter {
+  private connection: Connection | null = null;
+  private sessions: Model<any> | null = null;
+  private transactions: Model<any> | null = null;
+  private isConnectedFlag = false;
+  private eventHandlers: Map<string, ((event: DatabaseEvent) => void)[]> = new Map();
+  private connectionListeners: [string, (...args: any[]) => void][] = [];
+  private poolListeners: [string, (...args: any[]) => void][] = [];
+  private poolStats = { total: 0, inUse: 0, waiting: 0 };
+  private config: Omit<MongoDBConfig, 'type'>;
+  private externalConnection: Connection | undefined;
+  private sessionTtl: number;
+
+  // An existing connection (a test stand-in, or one shared with the application) is used instead of opening one
+  constructor(config: Omit<MongoDBConfig, 'type'>, connection?: Connection) {
+    this.config = config;
+    this.externalConnection = connection;
+    this.sessionTtl = config.options?.ttl || DEFAULT_SESSION_TTL;
+  }
+
+  async connect(): Promise<void> {
+    try {
+      const options = this.config.options;
+      // useNewUrlParser and useUnifiedTopology have been the driver's only behaviour since 4.0 and are not passed on
+      const connection = this.externalConnection || createConnection(this.config.connectionString, {
+        ...(this.config.databaseName ? { dbName: this.config.databaseName } : {}),
+        // Indexes are built by migrate(), not on first use of a model
+        autoIndex: false,
+        ...(options?.maxPoolSize !== undefined ? { maxPoolSize: options.maxPoolSize } : {}),
+        ...(options?.serverSelectionTimeoutMS !== undefined ? { serverSelectionTimeoutMS: options.serverSelectionTimeoutMS } : {})
+      });
+      this.connection = connection;
+
+      // Pool events from before the first connect, so its connections are counted. The catch below removes them again
+      this.listenPool(connection);
+      await connection.asPromise();
+      // Only once open: with an error listener, mongoose re-emits a failed first connect after the catch below has run
+      this.listen(connection);
+      // Rebuilt on every connect, a shared connection may still hold the models of an earlier one
+      for (const name of ['UserSession', 'TransactionRecord']) {
+        if (connection.models[name]) {
+          connection.deleteModel(name);
+        }
+      }
+      this.sessions = connection.model('UserSession', createSessionSchema(this.sessionTtl), 'user_sessions');
+      this.transactions = connection.model('TransactionRecord', createTransactionSchema(), 'transaction_history');
+
+      this.isConnectedFlag = true;
+      await this.migrate();
+
+      this.emitEvent({
+        type: 'connect',
+        timestamp: new Date()
+      });
+    } catch (error) {
+      if (this.connection) {
+        this.unlisten(this.connection);
+        if (!this.externalConnection) {
+          await this.connection.close().catch(() => undefined);
+        }
+      }
+      this.connection = null;
+      this.sessions = null;
+      this.transactions = null;
+
+      this.isConnectedFlag = false;
+      this.emitEvent({
+        type: 'error',
+        timestamp: new Date(),
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.connection) {
+      this.unlisten(this.connection);
+      // A connection passed in belongs to the caller
+      if (!this.externalConnection) {
+        await this.connection.close();
+      }
+    }
+    this.connection = null;
+    this.sessions = null;
+    this.transactions = null;
+
+    this.isConnectedFlag = false;
+    this.emitEvent({
+      type: 'disconnect',
+      timestamp: new Date()
+    });
+  }
+
+  isConnected(): boolean {
+    return this.isConnectedFlag && this.connection !== null;
+  }
+
+  async saveSession(session: UserSession): Promise<void> {
+    const sessions = this.getSessions();
+
+    try {
+      await this.upsertSession(sessions, session);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getSession(userId: string): Promise<UserSession | null> {
+    const sessions = this.getSessions();
+
+    try {
+      const doc = await sessions.findOne({ userId }).lean();
+      return doc ? this.docToSession(doc) : null;
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  /**
+   * `where` is a Mongo filter, so operators such as `$in`, `$gte` and `$or` work,
+   * as do dotted paths into sessionData. Fields outside the schema are rejected.
+   */
+  async getAllSessions(options?: QueryOptions): Promise<QueryResult<UserSession>> {
+    const sessions = this.getSessions();
+
+    try {
+      const filter = this.toFilter(options?.where);
+      const orderBy = this.field(sessions, options?.orderBy || 'createdAt');
+
+      // userId breaks ties so pages don't overlap
+      let query = sessions.find(filter)
+        .sort({ [orderBy]: this.direction(options, 'ASC'), userId: 1 });
+      if (options?.offset) {
+        query = query.skip(options.offset);
+      }
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+
+      const [docs, total] = await Promise.all([
+        query.lean(),
+        sessions.countDocuments(filter)
+      ]);
+      const data = docs.map(doc => this.docToSession(doc));
+
+      return {
+        data,
+        total,
+        limit: options?.limit || data.length,
+        offset: options?.offset || 0
+      };
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async updateSession(userId: string, updates: Partial<UserSession>): Promise<void> {
+    const sessions = this.getSessions();
+
+    try {
+      // Runtime-only fields (wcClient, accounts, ...) are not stored
+      const set: Record<string, any> = {};
+      for (const [key, value] of Object.entries(updates)) {
+        const field = key === 'activeChainId' ? 'chainId' : key;
+        if (key !== 'userId' && sessions.schema.path(field)) {
+          set[field] = value ?? null;
+        }
+      }
+      if (!updates.updatedAt) {
+        set['updatedAt'] = new Date();
+      }
+
+      await sessions.updateOne({ userId }, { $set: set });
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async deleteSession(userId: string): Promise<void> {
+    const sessions = this.getSessions();
+
+    try {
+      await sessions.deleteOne({ userId });
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async saveTransactionRecord(record: TransactionRecord): Promise<void> {
+    const transactions = this.getTransactions();
+
+    try {
+      await transactions.replaceOne({ id: record.id }, record, { upsert: true });
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async updateTransactionRecord(id: string, updates: Partial<TransactionRecord>): Promise<void> {
+    const transactions = this.getTransactions();
+
+    try {
+      const set: Record<string, any> = {};
+      for (const [key, value] of Object.entries(updates)) {
+        if (key !== 'id' && transactions.schema.path(key)) {
+          set[key] = value ?? null;
+        }
+      }
+      if (Object.keys(set).length === 0) {
+        return;
+      }
+
+      await transactions.updateOne({ id }, { $set: set });
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getTransactionHistory(userId: string, options?: QueryOptions): Promise<QueryResult<TransactionRecord>> {
+    const transactions = this.getTransactions();
+
+    try {
+      const filter = { ...options?.where, userId };
+      const orderBy = this.field(transactions, options?.orderBy || 'createdAt');
+
+      let query = transactions.find(filter)
+        .sort({ [orderBy]: this.direction(options, 'DESC'), id: 1 });
+      if (options?.offset) {
+        query = query.skip(options.offset);
+      }
+      if (options?.limit) {
+        query = query.limit(options.limit);
+      }
+
+      const [docs, total] = await Promise.all([
+        query.lean(),
+        transactions.countDocuments(filter)
+      ]);
+      const data = docs.map(doc => this.docToTransactionRecord(doc));
+
+      return {
+        data,
+        total,
+        limit: options?.limit || data.length,
+        offset: options?.offset || 0
+      };
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  // The TTL index already expires idle sessions, this also removes inactive ones and works for shorter timeouts
+  async cleanupExpiredSessions(timeout: number = this.sessionTtl * 1000): Promise<number> {
+    const sessions = this.getSessions();
+
+    try {
+      const result = await sessions.deleteMany({
+        $or: [
+          { lastActivity: { $lt: new Date(Date.now() - timeout) } },
+          { isActive: false }
+        ]
+      });
+
+      const deletedCount = result.deletedCount || 0;
+
+      this.emitEvent({
+        type: 'cleanup',
+        timestamp: new Date(),
+        data: { deletedCount }
+      });
+
+      return deletedCount;
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getHealth(): Promise<DatabaseHealth> {
+    if (!this.connection || !this.sessions) {
+      return {
+        isConnected: false,
+        responseTime: 0,
+        activeConnections: 0,
+        totalSessions: 0,
+        lastError: 'Database not connected',
+        timestamp: new Date()
+      };
+    }
+
+    const pool: DatabasePoolStats = {
+      total: this.poolStats.total,
+      idle: Math.max(this.poolStats.total - this.poolStats.inUse, 0),
+      waiting: this.poolStats.waiting,
+      max: this.config.options?.maxPoolSize || DEFAULT_MAX_POOL_SIZE
+    };
+
+    try {
+      const startTime = Date.now();
+      await this.connection.db!.command({ ping: 1 });
+      const responseTime = Date.now() - startTime;
+
+      return {
+        isConnected: true,
+        responseTime,
+        activeConnections: this.poolStats.inUse,
+        totalSessions: await this.sessions.estimatedDocumentCount(),
+        pool,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        isConnected: false,
+        responseTime: 0,
+        activeConnections: this.poolStats.inUse,
+        totalSessions: 0,
+        pool,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date()
+      };
+    }
+  }
+
+  async backup(): Promise<string> {
+    this.getSessions();
+
+    try {
+      const sessions = await this.getAllSessions();
+      const backup = {
+        sessions: sessions.data.map(({ wcClient: _wcClient, ...session }) => session),
+        timestamp: new Date().toISOString(),
+        version: '1.0'
+      };
+
+      return JSON.stringify(backup, null, 2);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  // Standalone servers (mongodb-memory-server's default) have no transactions, so unlike the SQL adapters this is not atomic
+  async restore(backup: string): Promise<void> {
+    const sessions = this.getSessions();
+
+    try {
+      const data = JSON.parse(backup);
+
+      await sessions.deleteMany({});
+      for (const session of data.sessions) {
+        await this.upsertSession(sessions, {
+          ...session,
+          createdAt: new Date(session.createdAt),
+          updatedAt: new Date(session.updatedAt),
+          lastActivity: new Date(session.lastActivity),
+          wcClient: null
+        });
+      }
+
+      this.emitEvent({
+        type: 'migration',
+        timestamp: new Date(),
+        data: { action: 'restore_backup', sessionCount: data.sessions.length }
+      });
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  // Create the collections and bring their indexes in line with the schemas, including a changed ttl
+  async migrate(): Promise<void> {
+    const sessions = this.getSessions();
+    const transactions = this.getTransactions();
+
+    try {
+      await sessions.syncIndexes();
+      await transactions.syncIndexes();
+
+      this.emitEvent({
+        type: 'migration',
+        timestamp: new Date(),
+        data: { action: 'migrate', sessionTtl: this.sessionTtl }
+      });
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  on(event: string, callback: (event: DatabaseEvent) => void): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  off(event: string, callback: (event: DatabaseEvent) => void): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  private getSessions(): Model<any> {
+    if (!this.sessions) {
+      throw new Error('Database not connected');
+    }
+    return this.sessions;
+  }
+
+  private getTransactions(): Model<any> {
+    if (!this.transactions) {
+      throw new Error('Database not connected');
+    }
+    return this.transactions;
+  }
+
+  // Report drops and reconnects of the driver as DatabaseEvents
+  private listen(connection: Connection): void {
+    const connectionListeners: [string, (...args: any[]) => void][] = [
+      ['disconnected', () => {
+        this.isConnectedFlag = false;
+        this.emitEvent({ type: 'disconnect', timestamp: new Date() });
+      }],
+      ['reconnected', () => {
+        this.isConnectedFlag = true;
+        this.emitEvent({ type: 'connect', timestamp: new Date() });
+      }],
+      ['error', (error: Error) => this.emitError(error)]
+    ];
+    for (const [event, listener] of connectionListeners) {
+      connection.on(event, listener);
+    }
+
+    this.connectionListeners = connectionListeners;
+  }
+
+  // Count pool connections for getHealth from the monitoring events of the underlying MongoClient
+  private listenPool(connection: Connection): void {
+    this.poolStats = { total: 0, inUse: 0, waiting: 0 };
+
+    const client = connection.getClient();
+    const poolListeners: [string, (...args: any[]) => void][] = [
+      ['connectionCreated', () => this.countPool('total', 1)],
+      ['connectionClosed', () => this.countPool('total', -1)],
+      ['connectionCheckOutStarted', () => this.countPool('waiting', 1)],
+      ['connectionCheckOutFailed', () => this.countPool('waiting', -1)],
+      ['connectionCheckedOut', () => {
+        this.countPool('waiting', -1);
+        this.countPool('inUse', 1);
+      }],
+      ['connectionCheckedIn', () => this.countPool('inUse', -1)]
+    ];
+    for (const [event, listener] of poolListeners) {
+      client.on(event as any, listener);
+    }
+
+    this.poolListeners = poolListeners;
+  }
+
+  // A shared connection may have opened and checked out connections before it was handed in, never count below 0
+  private countPool(field: 'total' | 'inUse' | 'waiting', delta: number): void {
+    this.poolStats[field] = Math.max(0, this.poolStats[field] + delta);
+  }
+
+  private unlisten(connection: Connection): void {
+    for (const [event, listener] of this.connectionListeners) {
+      connection.off(event, listener);
+    }
+    const client = connection.getClient();
+    for (const [event, listener] of this.poolListeners) {
+      client.off(event as any, listener);
+    }
+    this.connectionListeners = [];
+    this.poolListeners = [];
+  }
+
+  private async upsertSession(sessions: Model<any>, session: UserSession): Promise<void> {
+    await sessions.updateOne(
+      { userId: session.userId },
+      {
+        $set: {
+          topic: session.topic || null,
+          address: session.address || null,
+          sessionData: session.sessionData || null,
+          isActive: session.isActive,
+          updatedAt: session.updatedAt,
+          lastActivity: session.lastActivity,
+          chainId: session.activeChainId ?? null,
+          namespace: Object.keys(session.sessionData?.namespaces || {})[0] || null
+        },
+        $setOnInsert: { createdAt: session.createdAt }
+      },
+      { upsert: true }
+    );
+  }
+
+  // QueryOptions use UserSession names, activeChainId is stored as chainId
+  private toFilter(where?: Record<string, any>): Record<string, any> {
+    const filter: Record<string, any> = {};
+    for (const [key, value] of Object.entries(where || {})) {
+      filter[key === 'activeChainId' ? 'chainId' : key] = value;
+    }
+    return filter;
+  }
+
+  private field(model: Model<any>, field: string): string {
+    const path = field === 'activeChainId' ? 'chainId' : field;
+    if (!model.schema.path(path)) {
+      throw new Error(`Unknown field '${field}'`);
+    }
+    return path;
+  }
+
+  private direction(options: QueryOptions | undefined, fallback: 'ASC' | 'DESC'): SortOrder {
+    const direction = options?.orderDirection === 'ASC' || options?.orderDirection === 'DESC' ? options.orderDirection : fallback;
+    return direction === 'ASC' ? 1 : -1;
+  }
+
+  private docToSession(doc: any): UserSession {
+    return {
+      userId: doc.userId,
+      topic: doc.topic || undefined,
+      address: doc.address || undefined,
+      sessionData: doc.sessionData || undefined,
+      isActive: doc.isActive,
+      createdAt: new Date(doc.createdAt),
+      updatedAt: new Date(doc.updatedAt),
+      lastActivity: new Date(doc.lastActivity),
+      ...(doc.chainId !== null && doc.chainId !== undefined ? { activeChainId: doc.chainId } : {}),
+      wcClient: null // Placeholder - will be set by the SDK
+    };
+  }
+
+  private docToTransactionRecord(doc: any): TransactionRecord {
+    return {
+      id: doc.id,
+      userId: doc.userId,
+      type: doc.type,
+      ...(doc.chainId !== null && doc.chainId !== undefined ? { chainId: doc.chainId } : {}),
+      request: doc.request,
+      ...(doc.hash ? { hash: doc.hash } : {}),
+      ...(doc.signature ? { signature: doc.signature } : {}),
+      status: doc.status,
+      ...(doc.error ? { error: doc.error } : {}),
+      createdAt: new Date(doc.createdAt),
+      updatedAt: new Date(doc.updatedAt)
+    };
+  }
+
+  private emitError(error: unknown): void {
+    this.emitEvent({
+      type: 'error',
+      timestamp: new Date(),
+      error: error as Error
+    });
+  }
+
+  private emitEvent(event: DatabaseEvent): void {
+    const handlers = this.eventHandlers.get(event.type);
+    if (handlers) {
+      for (const handler of handlers) {
+        try {
+          handler(event);
+        } catch (error) {
+          console.error('Error in database event handler:', error);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,696 @@
+import { createPool, Pool, PoolConnection, ResultSetHeader, RowDataPacket } from 'mysql2/promise';
+import { DatabaseAdapter, QueryOptions, QueryResult, DatabaseHealth, DatabaseEvent, DatabasePoolStats, MySQLConfig } from '../types/database';
+import { UserSession, TransactionRecord } from '../types';
+
+// mysql2's default connectionLimit
+const DEFAULT_CONNECTION_LIMIT = 10;
+
+// Queryable fields and their columns, anything else in QueryOptions is rejected
+const SESSION_COLUMNS: Record<string, string> = {
+  userId: 'userId',
+  topic: 'topic',
+  address: 'address',
+  sessionData: 'sessionData',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  lastActivity: 'lastActivity',
+  activeChainId: 'chainId',
+  chainId: 'chainId',
+  namespace: 'namespace'
+};
+
+const TRANSACTION_COLUMNS: Record<string, string> = {
+  userId: 'userId',
+  type: 'type',
+  chainId: 'chainId',
+  request: 'request',
+  hash: 'hash',
+  signature: 'signature',
+  status: 'status',
+  error: 'error',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+};
+
+const JSON_COLUMNS = ['sessionData', 'request'];
+
+export class MySQLDatabase implements DatabaseAdapter {
+  private pool: Pool | null = null;
+  private isConnectedFlag = false;
+  private eventHandlers: Map<string, ((event: DatabaseEvent) => void)[]> = new Map();
+  private config: Omit<MySQLConfig, 'type'>;
+  private externalPool: Pool | undefined;
+  // Pool usage as seen through the pool's events, mysql2 has no public counters
+  private connections: Set<object> = new Set();
+  private acquired: Set<object> = new Set();
+  // This adapter's requests still waiting for a connection, queries of the application on a shared pool are not seen
+  private waiting = 0;
+
+  // An existing pool (a test stand-in, or one shared with the application) is used instead of creating one
+  constructor(config: Omit<MySQLConfig, 'type'>, pool?: Pool) {
+    this.config = config;
+    this.externalPool = pool;
+    if (pool) {
+      this.trackPool(pool);
+    }
+  }
+
+  async connect(): Promise<void> {
+    try {
+      // A pool from an earlier, failed connect() is retried rather than replaced
+      if (!this.pool) {
+        this.pool = this.externalPool || this.createPool();
+      }
+
+      await this.query('SELECT 1');
+      this.isConnectedFlag = true;
+      await this.migrate();
+
+      this.emitEvent({
+        type: 'connect',
+        timestamp: new Date()
+      });
+    } catch (error) {
+      this.isConnectedFlag = false;
+      this.emitEvent({
+        type: 'error',
+        timestamp: new Date(),
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    // A pool passed in belongs to the caller
+    if (this.pool && !this.externalPool) {
+      await this.pool.end();
+    }
+    this.pool = null;
+
+    this.isConnectedFlag = false;
+    this.emitEvent({
+      type: 'disconnect',
+      timestamp: new Date()
+    });
+  }
+
+  isConnected(): boolean {
+    return this.isConnectedFlag && this.pool !== null;
+  }
+
+  async saveSession(session: UserSession): Promise<void> {
+    this.getPool();
+
+    try {
+      await this.upsertSession(session);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getSession(userId: string): Promise<UserSession | null> {
+    this.getPool();
+
+    try {
+      const rows = await this.query<RowDataPacket[]>('SELECT * FROM user_sessions WHERE userId = ?', [userId]);
+      return rows[0] ? this.rowToSession(rows[0]) : null;
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getAllSessions(options?: QueryOptions): Promise<QueryResult<UserSession>> {
+    this.getPool();
+
+    try {
+      const { clause, params } = this.buildWhere(SESSION_COLUMNS, options?.where);
+      const orderBy = this.column(SESSION_COLUMNS, options?.orderBy || 'createdAt');
+
+      // userId breaks ties so pages don't overlap
+      let query = `SELECT * FROM user_sessions${clause} ORDER BY ${orderBy} ${this.direction(options, 'ASC')}, userId ASC`;
+      query += this.buildPage(options);
+
+      const [rows, count] = await Promise.all([
+        this.query<RowDataPacket[]>(query, params),
+        this.query<RowDataPacket[]>(`SELECT COUNT(*) AS count FROM user_sessions${clause}`, params)
+      ]);
+      const sessions = rows.map(row => this.rowToSession(row));
+
+      return {
+        data: sessions,
+        total: Number(count[0]?.['count'] || 0),
+        limit: options?.limit || sessions.length,
+        offset: options?.offset || 0
+      };
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async updateSession(userId: string, updates: Partial<UserSession>): Promise<void> {
+    this.getPool();
+
+    try {
+      // Runtime-only fields (wcClient, accounts, ...) have no column and are skipped
+      const entries = Object.entries(updates)
+        .filter(([key]) => key !== 'userId' && key in SESSION_COLUMNS);
+      if (!updates.updatedAt) {
+        entries.push(['updatedAt', new Date()]);
+      }
+
+      const { assignments, params } = this.buildSet(SESSION_COLUMNS, entries);
+      params.push(userId);
+
+      await this.query(`UPDATE user_sessions SET ${assignments} WHERE userId = ?`, params);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async deleteSession(userId: string): Promise<void> {
+    this.getPool();
+
+    try {
+      await this.query('DELETE FROM user_sessions WHERE userId = ?', [userId]);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async saveTransactionRecord(record: TransactionRecord): Promise<void> {
+    this.getPool();
+
+    try {
+      await this.query(`
+        INSERT INTO transaction_history (
+          id, userId, type, chainId, request, hash, signature,
+          status, error, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        ON DUPLICATE KEY UPDATE
+          chainId = VALUES(chainId),
+          request = VALUES(request),
+          hash = VALUES(hash),
+          signature = VALUES(signature),
+          status = VALUES(status),
+          error = VALUES(error),
+          updatedAt = VALUES(updatedAt)
+      `, [
+        record.id,
+        record.userId,
+        record.type,
+        record.chainId ?? null,
+        JSON.stringify(record.request),
+        record.hash || null,
+        record.signature || null,
+        record.status,
+        record.error || null,
+        record.createdAt,
+        record.updatedAt
+      ]);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async updateTransactionRecord(id: string, updates: Partial<TransactionRecord>): Promise<void> {
+    this.getPool();
+
+    try {
+      const entries = Object.entries(updates).filter(([key]) => key !== 'id' && key in TRANSACTION_COLUMNS);
+      if (entries.length === 0) {
+        return;
+      }
+
+      const { assignments, params } = this.buildSet(TRANSACTION_COLUMNS, entries);
+      params.push(id);
+
+      await this.query(`UPDATE transaction_history SET ${assignments} WHERE id = ?`, params);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getTransactionHistory(userId: string, options?: QueryOptions): Promise<QueryResult<TransactionRecord>> {
+    this.getPool();
+
+    try {
+      const { clause, params } = this.buildWhere(TRANSACTION_COLUMNS, { ...options?.where, userId });
+      const orderBy = this.column(TRANSACTION_COLUMNS, options?.orderBy || 'createdAt');
+
+      let query = `SELECT * FROM transaction_history${clause} ORDER BY ${orderBy} ${this.direction(options, 'DESC')}, id ASC`;
+      query += this.buildPage(options);
+
+      const [rows, count] = await Promise.all([
+        this.query<RowDataPacket[]>(query, params),
+        this.query<RowDataPacket[]>(`SELECT COUNT(*) AS count FROM transaction_history${clause}`, params)
+      ]);
+      const records = rows.map(row => this.rowToTransactionRecord(row));
+
+      return {
+        data: records,
+        total: Number(count[0]?.['count'] || 0),
+        limit: options?.limit || records.length,
+        offset: options?.offset || 0
+      };
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async cleanupExpiredSessions(timeout: number = 24 * 60 * 60 * 1000): Promise<number> {
+    this.getPool();
+
+    try {
+      const result = await this.query<ResultSetHeader>(
+        'DELETE FROM user_sessions WHERE lastActivity < ? OR isActive = 0',
+        [new Date(Date.now() - timeout)]
+      );
+
+      const deletedCount = result.affectedRows || 0;
+
+      this.emitEvent({
+        type: 'cleanup',
+        timestamp: new Date(),
+        data: { deletedCount }
+      });
+
+      return deletedCount;
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getHealth(): Promise<DatabaseHealth> {
+    if (!this.pool) {
+      return {
+        isConnected: false,
+        responseTime: 0,
+        activeConnections: 0,
+        totalSessions: 0,
+        lastError: 'Database not connected',
+        timestamp: new Date()
+      };
+    }
+
+    const pool = this.getPoolStats();
+
+    try {
+      const startTime = Date.now();
+      const rows = await this.query<RowDataPacket[]>('SELECT COUNT(*) AS count FROM user_sessions');
+      const responseTime = Date.now() - startTime;
+
+      return {
+        isConnected: true,
+        responseTime,
+        activeConnections: pool.total - pool.idle,
+        totalSessions: Number(rows[0]?.['count'] || 0),
+        pool,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        isConnected: false,
+        responseTime: 0,
+        activeConnections: pool.total - pool.idle,
+        totalSessions: 0,
+        pool,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date()
+      };
+    }
+  }
+
+  async backup(): Promise<string> {
+    this.getPool();
+
+    try {
+      const sessions = await this.getAllSessions();
+      const backup = {
+        sessions: sessions.data.map(({ wcClient: _wcClient, ...session }) => session),
+        timestamp: new Date().toISOString(),
+        version: '1.0'
+      };
+
+      return JSON.stringify(backup, null, 2);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async restore(backup: string): Promise<void> {
+    const connection = await this.getConnection();
+
+    try {
+      const data = JSON.parse(backup);
+
+      // All or nothing, a failed restore leaves the current sessions in place
+      await connection.beginTransaction();
+      await connection.query('DELETE FROM user_sessions');
+      for (const session of data.sessions) {
+        await this.upsertSession({
+          ...session,
+          createdAt: new Date(session.createdAt),
+          updatedAt: new Date(session.updatedAt),
+          lastActivity: new Date(session.lastActivity),
+          wcClient: null
+        }, connection);
+      }
+      await connection.commit();
+
+      this.emitEvent({
+        type: 'migration',
+        timestamp: new Date(),
+        data: { action: 'restore_backup', sessionCount: data.sessions.length }
+      });
+    } catch (error) {
+      await connection.rollback().catch(() => undefined);
+      this.emitError(error);
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async migrate(): Promise<void> {
+    this.getPool();
+
+    try {
+      await this.createTables();
+
+      this.emitEvent({
+        type: 'migration',
+        timestamp: new Date(),
+        data: { action: 'migrate' }
+      });
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  on(event: string, callback: (event: DatabaseEvent) => void): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  off(event: string, callback: (event: DatabaseEvent) => void): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  private getPool(): Pool {
+    if (!this.pool) {
+      throw new Error('Database not connected');
+    }
+    return this.pool;
+  }
+
+  // Every statement goes through here so the configured timeout applies to all of them.
+  // Without a connection (one holding a transaction), the statement runs on one taken from the pool
+  private async query<T extends RowDataPacket[] | ResultSetHeader = ResultSetHeader>(
+    sql: string,
+    params: any[] = [],
+    connection?: PoolConnection
+  ): Promise<T> {
+    const timeout = this.config.options?.timeout;
+    const options = { sql, ...(timeout !== undefined ? { timeout } : {}) };
+
+    if (connection) {
+      const [result] = await connection.query<T>(options, params);
+      return result;
+    }
+
+    const pooled = await this.getConnection();
+    try {
+      const [result] = await pooled.query<T>(options, params);
+      return result;
+    } finally {
+      pooled.release();
+    }
+  }
+
+  // mysql2 hands a released connection straight to a queued request without an event,
+  // so requests waiting for a connection are counted here rather than from the pool events
+  private async getConnection(): Promise<PoolConnection> {
+    const pool = this.getPool();
+    this.waiting++;
+    try {
+      return await pool.getConnection();
+    } finally {
+      this.waiting--;
+    }
+  }
+
+  // MySQL has no CREATE INDEX IF NOT EXISTS, the indexes are declared with the tables
+  private async createTables(): Promise<void> {
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        userId VARCHAR(255) NOT NULL PRIMARY KEY,
+        topic VARCHAR(255),
+        address VARCHAR(255),
+        sessionData JSON,
+        isActive TINYINT(1) NOT NULL DEFAULT 1,
+        createdAt DATETIME(3) NOT NULL,
+        updatedAt DATETIME(3) NOT NULL,
+        lastActivity DATETIME(3) NOT NULL,
+        chainId INT,
+        namespace VARCHAR(255),
+        INDEX idx_user_sessions_topic (topic),
+        INDEX idx_user_sessions_address (address),
+        INDEX idx_user_sessions_isActive (isActive),
+        INDEX idx_user_sessions_lastActivity (lastActivity)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+
+    await this.query(`
+      CREATE TABLE IF NOT EXISTS transaction_history (
+        id VARCHAR(255) NOT NULL PRIMARY KEY,
+        userId VARCHAR(255) NOT NULL,
+        type VARCHAR(32) NOT NULL,
+        chainId INT,
+        request JSON NOT NULL,
+        hash VARCHAR(255),
+        signature TEXT,
+        status VARCHAR(32) NOT NULL,
+        error TEXT,
+        createdAt DATETIME(3) NOT NULL,
+        updatedAt DATETIME(3) NOT NULL,
+        INDEX idx_transaction_history_userId (userId, createdAt),
+        INDEX idx_transaction_history_hash (hash)
+      ) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4
+    `);
+  }
+
+  private async upsertSession(session: UserSession, connection?: PoolConnection): Promise<void> {
+    await this.query(`
+      INSERT INTO user_sessions (
+        userId, topic, address, sessionData, isActive,
+        createdAt, updatedAt, lastActivity, chainId, namespace
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON DUPLICATE KEY UPDATE
+        topic = VALUES(topic),
+        address = VALUES(address),
+        sessionData = VALUES(sessionData),
+        isActive = VALUES(isActive),
+        updatedAt = VALUES(updatedAt),
+        lastActivity = VALUES(lastActivity),
+        chainId = VALUES(chainId),
+        namespace = VALUES(namespace)
+    `, [
+      session.userId,
+      session.topic || null,
+      session.address || null,
+      session.sessionData ? JSON.stringify(session.sessionData) : null,
+      session.isActive ? 1 : 0,
+      session.createdAt,
+      session.updatedAt,
+      session.lastActivity,
+      session.activeChainId ?? null,
+      Object.keys(session.sessionData?.namespaces || {})[0] || null
+    ], connection);
+  }
+
+  private createPool(): Pool {
+    const options = this.config.options;
+    const pool = createPool({
+      uri: this.config.connectionString,
+      // Dates are written and read as UTC, whatever the server's time zone
+      timezone: 'Z',
+      ...(options?.ssl ? { ssl: {} } : {}),
+      ...(options?.connectionLimit !== undefined ? { connectionLimit: options.connectionLimit } : {}),
+      // mysql2 has no acquire timeout, waiting for a new connection is bounded by connectTimeout
+      ...(options?.acquireTimeout !== undefined ? { connectTimeout: options.acquireTimeout } : {})
+    });
+
+    this.connections.clear();
+    this.acquired.clear();
+    this.trackPool(pool);
+    return pool;
+  }
+
+  // Connections an external pool opened before it was handed in are not counted
+  private trackPool(pool: Pool): void {
+    pool.on('connection', (connection) => {
+      this.connections.add(connection);
+      const forget = () => {
+        this.connections.delete(connection);
+        this.acquired.delete(connection);
+      };
+      connection.once('end', forget);
+      connection.once('error', forget);
+    });
+    pool.on('acquire', (connection) => {
+      this.acquired.add(connection);
+    });
+    // A connection handed to a queued request stays busy and fires no release
+    pool.on('release', (connection) => {
+      this.acquired.delete(connection);
+    });
+  }
+
+  private getPoolStats(): DatabasePoolStats {
+    return {
+      total: this.connections.size,
+      idle: Math.max(0, this.connections.size - this.acquired.size),
+      waiting: this.waiting,
+      max: this.config.options?.connectionLimit || DEFAULT_CONNECTION_LIMIT
+    };
+  }
+
+  private column(columns: Record<string, string>, field: string): string {
+    const column = columns[field];
+    if (!column) {
+      throw new Error(`Unknown field '${field}'`);
+    }
+    return column;
+  }
+
+  private direction(options: QueryOptions | undefined, fallback: 'ASC' | 'DESC'): 'ASC' | 'DESC' {
+    return options?.orderDirection === 'ASC' || options?.orderDirection === 'DESC' ? options.orderDirection : fallback;
+  }
+
+  // LIMIT/OFFSET from QueryOptions, coerced to integers before they are inlined
+  private buildPage(options?: QueryOptions): string {
+    const limit = Math.floor(Number(options?.limit));
+    const offset = Math.floor(Number(options?.offset));
+    if (limit > 0) {
+      return offset > 0 ? ` LIMIT ${limit} OFFSET ${offset}` : ` LIMIT ${limit}`;
+    }
+    // MySQL only accepts OFFSET after a LIMIT
+    return offset > 0 ? ` LIMIT 18446744073709551615 OFFSET ${offset}` : '';
+  }
+
+  private buildWhere(columns: Record<string, string>, where?: Record<string, any>): { clause: string; params: any[] } {
+    const params: any[] = [];
+    const conditions = Object.entries(where || {}).map(([key, value]) => {
+      const column = this.column(columns, key);
+      if (value === null) {
+        return `${column} IS NULL`;
+      }
+      if (JSON_COLUMNS.includes(column)) {
+        params.push(JSON.stringify(value));
+        return `JSON_CONTAINS(${column}, ?)`;
+      }
+      params.push(typeof value === 'boolean' ? (value ? 1 : 0) : value);
+      return `${column} = ?`;
+    });
+
+    return {
+      clause: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  private buildSet(columns: Record<string, string>, entries: [string, any][]): { assignments: string; params: any[] } {
+    const params: any[] = [];
+    const assignments = entries.map(([key, value]) => {
+      const column = this.column(columns, key);
+      if (JSON_COLUMNS.includes(column)) {
+        params.push(value === undefined || value === null ? null : JSON.stringify(value));
+      } else if (typeof value === 'boolean') {
+        params.push(value ? 1 : 0);
+      } else {
+        params.push(value ?? null);
+      }
+      return `${column} = ?`;
+    });
+
+    return { assignments: assignments.join(', '), params };
+  }
+
+  // JSON columns come back parsed from MySQL, MariaDB returns them as text
+  private parseJson(value: unknown): any {
+    return typeof value === 'string' ? JSON.parse(value) : value;
+  }
+
+  private rowToSession(row: any): UserSession {
+    return {
+      userId: row.userId,
+      topic: row.topic || undefined,
+      address: row.address || undefined,
+      sessionData: row.sessionData ? this.parseJson(row.sessionData) : undefined,
+      isActive: Boolean(row.isActive),
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt),
+      lastActivity: new Date(row.lastActivity),
+      ...(row.chainId !== null ? { activeChainId: row.chainId } : {}),
+      wcClient: null // Placeholder - will be set by the SDK
+    };
+  }
+
+  private rowToTransactionRecord(row: any): TransactionRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      type: row.type,
+      ...(row.chainId !== null ? { chainId: row.chainId } : {}),
+      request: this.parseJson(row.request),
+      ...(row.hash ? { hash: row.hash } : {}),
+      ...(row.signature ? { signature: row.signature } : {}),
+      status: row.status,
+      ...(row.error ? { error: row.error } : {}),
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt)
+    };
+  }
+
+  private emitError(error: unknown): void {
+    this.emitEvent({
+      type: 'error',
+      timestamp: new Date(),
+      error: error as Error
+    });
+  }
+
+  private emitEvent(event: DatabaseEvent): void {
+    const handlers = this.eventHandlers.get(event.type);
+    if (handlers) {
+      for (const handler of handlers) {
+        try {
+          handler(event);
+        } catch (error) {
+          console.error('Error in database event handler:', error);
+        }
+      }
+    }
+  }
+}
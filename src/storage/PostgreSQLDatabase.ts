@@ -0,0 +1,680 @@
+import { Pool, PoolClient } from 'pg';
+import { DatabaseAdapter, QueryOptions, QueryResult, DatabaseHealth, DatabaseEvent, Migration, PostgreSQLConfig } from '../types/database';
+import { UserSession, TransactionRecord } from '../types';
+
+// Queryable fields and their columns, anything else in QueryOptions is rejected
+const SESSION_COLUMNS: Record<string, string> = {
+  userId: 'user_id',
+  topic: 'topic',
+  address: 'address',
+  sessionData: 'session_data',
+  isActive: 'is_active',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  lastActivity: 'last_activity',
+  activeChainId: 'chain_id',
+  chainId: 'chain_id',
+  namespace: 'namespace'
+};
+
+const TRANSACTION_COLUMNS: Record<string, string> = {
+  userId: 'user_id',
+  type: 'type',
+  chainId: 'chain_id',
+  request: 'request',
+  hash: 'hash',
+  signature: 'signature',
+  status: 'status',
+  error: 'error',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at'
+};
+
+const JSON_COLUMNS = ['session_data', 'request'];
+
+// Applied in order, each version once, recorded in schema_migrations
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'create_user_sessions',
+    up: async (client: PoolClient) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS user_sessions (
+          user_id TEXT PRIMARY KEY,
+          topic TEXT,
+          address TEXT,
+          session_data JSONB,
+          is_active BOOLEAN NOT NULL DEFAULT TRUE,
+          created_at TIMESTAMPTZ NOT NULL,
+          updated_at TIMESTAMPTZ NOT NULL,
+          last_activity TIMESTAMPTZ NOT NULL,
+          chain_id INTEGER,
+          namespace TEXT
+        )
+      `);
+      await client.query('CREATE INDEX IF NOT EXISTS idx_user_sessions_topic ON user_sessions (topic)');
+      await client.query('CREATE INDEX IF NOT EXISTS idx_user_sessions_address ON user_sessions (address)');
+      await client.query('CREATE INDEX IF NOT EXISTS idx_user_sessions_is_active ON user_sessions (is_active)');
+      await client.query('CREATE INDEX IF NOT EXISTS idx_user_sessions_last_activity ON user_sessions (last_activity)');
+    },
+    down: async (client: PoolClient) => {
+      await client.query('DROP TABLE IF EXISTS user_sessions');
+    }
+  },
+  {
+    version: 2,
+    name: 'create_transaction_history',
+    up: async (client: PoolClient) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS transaction_history (
+          id TEXT PRIMARY KEY,
+          user_id TEXT NOT NULL,
+          type TEXT NOT NULL,
+          chain_id INTEGER,
+          request JSONB NOT NULL,
+          hash TEXT,
+          signature TEXT,
+          status TEXT NOT NULL,
+          error TEXT,
+          created_at TIMESTAMPTZ NOT NULL,
+          updated_at TIMESTAMPTZ NOT NULL
+        )
+      `);
+      await client.query('CREATE INDEX IF NOT EXISTS idx_transaction_history_user_id ON transaction_history (user_id, created_at)');
+      await client.query('CREATE INDEX IF NOT EXISTS idx_transaction_history_hash ON transaction_history (hash)');
+    },
+    down: async (client: PoolClient) => {
+      await client.query('DROP TABLE IF EXISTS transaction_history');
+    }
+  }
+];
+
+export class PostgreSQLDatabase implements DatabaseAdapter {
+  private pool: Pool | null = null;
+  private isConnectedFlag = false;
+  private eventHandlers: Map<string, ((event: DatabaseEvent) => void)[]> = new Map();
+  private config: Omit<PostgreSQLConfig, 'type'>;
+  private externalPool: Pool | undefined;
+
+  // An existing pool (a test stand-in, or one shared with the application) is used instead of creating one
+  constructor(config: Omit<PostgreSQLConfig, 'type'>, pool?: Pool) {
+    this.config = config;
+    this.externalPool = pool;
+    pool?.on('error', this.handlePoolError);
+  }
+
+  async connect(): Promise<void> {
+    try {
+      // A pool from an earlier, failed connect() is retried rather than replaced
+      if (!this.pool) {
+        this.pool = this.externalPool || this.createPool();
+      }
+
+      await this.pool.query('SELECT 1');
+      this.isConnectedFlag = true;
+      await this.migrate();
+
+      this.emitEvent({
+        type: 'connect',
+        timestamp: new Date()
+      });
+    } catch (error) {
+      this.isConnectedFlag = false;
+      this.emitEvent({
+        type: 'error',
+        timestamp: new Date(),
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    // A pool passed in belongs to the caller
+    if (this.pool && !this.externalPool) {
+      await this.pool.end();
+    }
+    this.pool = null;
+
+    this.isConnectedFlag = false;
+    this.emitEvent({
+      type: 'disconnect',
+      timestamp: new Date()
+    });
+  }
+
+  isConnected(): boolean {
+    return this.isConnectedFlag && this.pool !== null;
+  }
+
+  async saveSession(session: UserSession): Promise<void> {
+    const pool = this.getPool();
+
+    try {
+      await this.upsertSession(pool, session);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getSession(userId: string): Promise<UserSession | null> {
+    const pool = this.getPool();
+
+    try {
+      const { rows } = await pool.query('SELECT * FROM user_sessions WHERE user_id = $1', [userId]);
+      return rows[0] ? this.rowToSession(rows[0]) : null;
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getAllSessions(options?: QueryOptions): Promise<QueryResult<UserSession>> {
+    const pool = this.getPool();
+
+    try {
+      const { clause, params } = this.buildWhere(SESSION_COLUMNS, options?.where);
+      const orderBy = this.column(SESSION_COLUMNS, options?.orderBy || 'createdAt');
+
+      // user_id breaks ties so pages don't overlap
+      let query = `SELECT * FROM user_sessions${clause} ORDER BY ${orderBy} ${this.direction(options, 'ASC')}, user_id ASC`;
+      const pageParams = [...params];
+      if (options?.limit) {
+        pageParams.push(options.limit);
+        query += ` LIMIT $${pageParams.length}`;
+      }
+      if (options?.offset) {
+        pageParams.push(options.offset);
+        query += ` OFFSET $${pageParams.length}`;
+      }
+
+      const [{ rows }, count] = await Promise.all([
+        pool.query(query, pageParams),
+        pool.query(`SELECT COUNT(*)::int AS count FROM user_sessions${clause}`, params)
+      ]);
+      const sessions = rows.map(row => this.rowToSession(row));
+
+      return {
+        data: sessions,
+        total: count.rows[0]?.count || 0,
+        limit: options?.limit || sessions.length,
+        offset: options?.offset || 0
+      };
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async updateSession(userId: string, updates: Partial<UserSession>): Promise<void> {
+    const pool = this.getPool();
+
+    try {
+      // Runtime-only fields (wcClient, accounts, ...) have no column and are skipped
+      const entries = Object.entries(updates)
+        .filter(([key]) => key !== 'userId' && key in SESSION_COLUMNS);
+      if (!updates.updatedAt) {
+        entries.push(['updatedAt', new Date()]);
+      }
+
+      const { assignments, params } = this.buildSet(SESSION_COLUMNS, entries);
+      params.push(userId);
+
+      await pool.query(`UPDATE user_sessions SET ${assignments} WHERE user_id = $${params.length}`, params);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async deleteSession(userId: string): Promise<void> {
+    const pool = this.getPool();
+
+    try {
+      await pool.query('DELETE FROM user_sessions WHERE user_id = $1', [userId]);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async saveTransactionRecord(record: TransactionRecord): Promise<void> {
+    const pool = this.getPool();
+
+    try {
+      await pool.query(`
+        INSERT INTO transaction_history (
+          id, user_id, type, chain_id, request, hash, signature,
+          status, error, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5::jsonb, $6, $7, $8, $9, $10, $11)
+        ON CONFLICT (id) DO UPDATE SET
+          chain_id = EXCLUDED.chain_id,
+          request = EXCLUDED.request,
+          hash = EXCLUDED.hash,
+          signature = EXCLUDED.signature,
+          status = EXCLUDED.status,
+          error = EXCLUDED.error,
+          updated_at = EXCLUDED.updated_at
+      `, [
+        record.id,
+        record.userId,
+        record.type,
+        record.chainId ?? null,
+        JSON.stringify(record.request),
+        record.hash || null,
+        record.signature || null,
+        record.status,
+        record.error || null,
+        record.createdAt,
+        record.updatedAt
+      ]);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async updateTransactionRecord(id: string, updates: Partial<TransactionRecord>): Promise<void> {
+    const pool = this.getPool();
+
+    try {
+      const entries = Object.entries(updates).filter(([key]) => key !== 'id' && key in TRANSACTION_COLUMNS);
+      if (entries.length === 0) {
+        return;
+      }
+
+      const { assignments, params } = this.buildSet(TRANSACTION_COLUMNS, entries);
+      params.push(id);
+
+      await pool.query(`UPDATE transaction_history SET ${assignments} WHERE id = $${params.length}`, params);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getTransactionHistory(userId: string, options?: QueryOptions): Promise<QueryResult<TransactionRecord>> {
+    const pool = this.getPool();
+
+    try {
+      const { clause, params } = this.buildWhere(TRANSACTION_COLUMNS, { ...options?.where, userId });
+      const orderBy = this.column(TRANSACTION_COLUMNS, options?.orderBy || 'createdAt');
+
+      let query = `SELECT * FROM transaction_history${clause} ORDER BY ${orderBy} ${this.direction(options, 'DESC')}, id ASC`;
+      const pageParams = [...params];
+      if (options?.limit) {
+        pageParams.push(options.limit);
+        query += ` LIMIT $${pageParams.length}`;
+      }
+      if (options?.offset) {
+        pageParams.push(options.offset);
+        query += ` OFFSET $${pageParams.length}`;
+      }
+
+      const [{ rows }, count] = await Promise.all([
+        pool.query(query, pageParams),
+        pool.query(`SELECT COUNT(*)::int AS count FROM transaction_history${clause}`, params)
+      ]);
+      const records = rows.map(row => this.rowToTransactionRecord(row));
+
+      return {
+        data: records,
+        total: count.rows[0]?.count || 0,
+        limit: options?.limit || records.length,
+        offset: options?.offset || 0
+      };
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async cleanupExpiredSessions(timeout: number = 24 * 60 * 60 * 1000): Promise<number> {
+    const pool = this.getPool();
+
+    try {
+      const result = await pool.query(
+        'DELETE FROM user_sessions WHERE last_activity < $1 OR is_active = FALSE',
+        [new Date(Date.now() - timeout)]
+      );
+
+      const deletedCount = result.rowCount || 0;
+
+      this.emitEvent({
+        type: 'cleanup',
+        timestamp: new Date(),
+        data: { deletedCount }
+      });
+
+      return deletedCount;
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getHealth(): Promise<DatabaseHealth> {
+    if (!this.pool) {
+      return {
+        isConnected: false,
+        responseTime: 0,
+        activeConnections: 0,
+        totalSessions: 0,
+        lastError: 'Database not connected',
+        timestamp: new Date()
+      };
+    }
+
+    const pool = {
+      total: this.pool.totalCount,
+      idle: this.pool.idleCount,
+      waiting: this.pool.waitingCount,
+      ...(this.pool.options?.max !== undefined ? { max: this.pool.options.max } : {})
+    };
+
+    try {
+      const startTime = Date.now();
+      const { rows } = await this.pool.query('SELECT COUNT(*)::int AS count FROM user_sessions');
+      const responseTime = Date.now() - startTime;
+
+      return {
+        isConnected: true,
+        responseTime,
+        activeConnections: pool.total - pool.idle,
+        totalSessions: rows[0]?.count || 0,
+        pool,
+        timestamp: new Date()
+      };
+    } catch (error) {
+      return {
+        isConnected: false,
+        responseTime: 0,
+        activeConnections: pool.total - pool.idle,
+        totalSessions: 0,
+        pool,
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date()
+      };
+    }
+  }
+
+  async backup(): Promise<string> {
+    this.getPool();
+
+    try {
+      const sessions = await this.getAllSessions();
+      const backup = {
+        sessions: sessions.data.map(({ wcClient: _wcClient, ...session }) => session),
+        timestamp: new Date().toISOString(),
+        version: '1.0'
+      };
+
+      return JSON.stringify(backup, null, 2);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async restore(backup: string): Promise<void> {
+    const client = await this.getPool().connect();
+
+    try {
+      const data = JSON.parse(backup);
+
+      // All or nothing, a failed restore leaves the current sessions in place
+      await client.query('BEGIN');
+      await client.query('DELETE FROM user_sessions');
+      for (const session of data.sessions) {
+        await this.upsertSession(client, {
+          ...session,
+          createdAt: new Date(session.createdAt),
+          updatedAt: new Date(session.updatedAt),
+          lastActivity: new Date(session.lastActivity),
+          wcClient: null
+        });
+      }
+      await client.query('COMMIT');
+
+      this.emitEvent({
+        type: 'migration',
+        timestamp: new Date(),
+        data: { action: 'restore_backup', sessionCount: data.sessions.length }
+      });
+    } catch (error) {
+      await client.query('ROLLBACK').catch(() => undefined);
+      this.emitError(error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Apply the migrations newer than the recorded schema version, each in its own transaction
+  async migrate(): Promise<void> {
+    const client = await this.getPool().connect();
+
+    try {
+      const { rows: tables } = await client.query(
+        "SELECT 1 FROM information_schema.tables WHERE table_schema = current_schema() AND table_name = 'schema_migrations'"
+      );
+      if (tables.length === 0) {
+        await client.query(`
+          CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+          )
+        `);
+      }
+
+      const { rows } = await client.query('SELECT version FROM schema_migrations');
+      const applied = new Set(rows.map(row => Number(row.version)));
+
+      for (const migration of MIGRATIONS) {
+        if (applied.has(migration.version)) {
+          continue;
+        }
+
+        try {
+          await client.query('BEGIN');
+          await migration.up(client);
+          // Another process may have applied it meanwhile, migrations are idempotent
+          await client.query(
+            'INSERT INTO schema_migrations (version, name) VALUES ($1, $2) ON CONFLICT (version) DO NOTHING',
+            [migration.version, migration.name]
+          );
+          await client.query('COMMIT');
+        } catch (error) {
+          await client.query('ROLLBACK').catch(() => undefined);
+          throw error;
+        }
+
+        this.emitEvent({
+          type: 'migration',
+          timestamp: new Date(),
+          data: { action: 'migrate', version: migration.version, name: migration.name }
+        });
+      }
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Latest applied schema version, 0 before the first migration
+  async getSchemaVersion(): Promise<number> {
+    const { rows } = await this.getPool().query('SELECT COALESCE(MAX(version), 0)::int AS version FROM schema_migrations');
+    return rows[0]?.version || 0;
+  }
+
+  on(event: string, callback: (event: DatabaseEvent) => void): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  off(event: string, callback: (event: DatabaseEvent) => void): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  private createPool(): Pool {
+    const options = this.config.options;
+    const pool = new Pool({
+      connectionString: this.config.connectionString,
+      ...(options?.ssl !== undefined ? { ssl: options.ssl } : {}),
+      ...(options?.max !== undefined ? { max: options.max } : {}),
+      ...(options?.idleTimeoutMillis !== undefined ? { idleTimeoutMillis: options.idleTimeoutMillis } : {}),
+      ...(options?.connectionTimeoutMillis !== undefined ? { connectionTimeoutMillis: options.connectionTimeoutMillis } : {})
+    });
+    pool.on('error', this.handlePoolError);
+    return pool;
+  }
+
+  private getPool(): Pool {
+    if (!this.pool) {
+      throw new Error('Database not connected');
+    }
+    return this.pool;
+  }
+
+  private async upsertSession(queryable: Pool | PoolClient, session: UserSession): Promise<void> {
+    await queryable.query(`
+      INSERT INTO user_sessions (
+        user_id, topic, address, session_data, is_active,
+        created_at, updated_at, last_activity, chain_id, namespace
+      ) VALUES ($1, $2, $3, $4::jsonb, $5, $6, $7, $8, $9, $10)
+      ON CONFLICT (user_id) DO UPDATE SET
+        topic = EXCLUDED.topic,
+        address = EXCLUDED.address,
+        session_data = EXCLUDED.session_data,
+        is_active = EXCLUDED.is_active,
+        updated_at = EXCLUDED.updated_at,
+        last_activity = EXCLUDED.last_activity,
+        chain_id = EXCLUDED.chain_id,
+        namespace = EXCLUDED.namespace
+    `, [
+      session.userId,
+      session.topic || null,
+      session.address || null,
+      session.sessionData ? JSON.stringify(session.sessionData) : null,
+      session.isActive,
+      session.createdAt,
+      session.updatedAt,
+      session.lastActivity,
+      session.activeChainId ?? null,
+      Object.keys(session.sessionData?.namespaces || {})[0] || null
+    ]);
+  }
+
+  private column(columns: Record<string, string>, field: string): string {
+    const column = columns[field];
+    if (!column) {
+      throw new Error(`Unknown field '${field}'`);
+    }
+    return column;
+  }
+
+  private direction(options: QueryOptions | undefined, fallback: 'ASC' | 'DESC'): 'ASC' | 'DESC' {
+    return options?.orderDirection === 'ASC' || options?.orderDirection === 'DESC' ? options.orderDirection : fallback;
+  }
+
+  private buildWhere(columns: Record<string, string>, where?: Record<string, any>): { clause: string; params: any[] } {
+    const params: any[] = [];
+    const conditions = Object.entries(where || {}).map(([key, value]) => {
+      const column = this.column(columns, key);
+      if (value === null) {
+        return `${column} IS NULL`;
+      }
+      params.push(JSON_COLUMNS.includes(column) ? JSON.stringify(value) : value);
+      return JSON_COLUMNS.includes(column) ? `${column} @> $${params.length}::jsonb` : `${column} = $${params.length}`;
+    });
+
+    return {
+      clause: conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+
+  private buildSet(columns: Record<string, string>, entries: [string, any][]): { assignments: string; params: any[] } {
+    const params: any[] = [];
+    const assignments = entries.map(([key, value]) => {
+      const column = this.column(columns, key);
+      if (JSON_COLUMNS.includes(column)) {
+        params.push(value === undefined || value === null ? null : JSON.stringify(value));
+        return `${column} = $${params.length}::jsonb`;
+      }
+      params.push(value ?? null);
+      return `${column} = $${params.length}`;
+    });
+
+    return { assignments: assignments.join(', '), params };
+  }
+
+  private rowToSession(row: any): UserSession {
+    return {
+      userId: row.user_id,
+      topic: row.topic || undefined,
+      address: row.address || undefined,
+      sessionData: row.session_data || undefined,
+      isActive: row.is_active,
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at),
+      lastActivity: new Date(row.last_activity),
+      ...(row.chain_id !== null ? { activeChainId: row.chain_id } : {}),
+      wcClient: null // Placeholder - will be set by the SDK
+    };
+  }
+
+  private rowToTransactionRecord(row: any): TransactionRecord {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      type: row.type,
+      ...(row.chain_id !== null ? { chainId: row.chain_id } : {}),
+      request: row.request,
+      ...(row.hash ? { hash: row.hash } : {}),
+      ...(row.signature ? { signature: row.signature } : {}),
+      status: row.status,
+      ...(row.error ? { error: row.error } : {}),
+      createdAt: new Date(row.created_at),
+      updatedAt: new Date(row.updated_at)
+    };
+  }
+
+  // Idle clients can fail (e.g. a server restart), unhandled that would crash the process
+  private handlePoolError = (error: Error): void => {
+    this.emitError(error);
+  };
+
+  private emitError(error: unknown): void {
+    this.emitEvent({
+      type: 'error',
+      timestamp: new Date(),
+      error: error as Error
+    });
+  }
+
+  private emitEvent(event: DatabaseEvent): void {
+    const handlers = this.eventHandlers.get(event.type);
+    if (handlers) {
+      for (const handler of handlers) {
+        try {
+          handler(event);
+        } catch (error) {
+          console.error('Error in database event handler:', error);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,480 @@
+import { createClient } from 'redis';
+import { StorageAdapter, StorageEvent, StorageStats, RedisStorageConfig } from '../types/storage';
+
+type RedisClient = ReturnType<typeof createClient>;
+
+// Keeps clear() and getKeys() to this storage's keys when several applications share a Redis database
+const DEFAULT_KEY_PREFIX = 'walletconnect:';
+
+// Keys per SCAN round trip and per MGET / pipeline batch
+const BATCH_SIZE = 500;
+
+/**
+ * Key-value storage in Redis, so WalletConnect keychains, pairings and sessions outlive the process.
+ * Values are stored as JSON strings and expiry uses Redis' own TTLs.
+ */
+export class RedisStorage implements StorageAdapter {
+  private client: RedisClient | null = null;
+  private isConnectedFlag = false;
+  private eventHandlers: Map<string, ((event: StorageEvent) => void)[]> = new Map();
+  private config: Omit<RedisStorageConfig, 'type'>;
+  private externalClient: RedisClient | undefined;
+  private keyPrefix: string;
+  private stats = {
+    hitRate: 0,
+    missRate: 0,
+    lastCleanup: new Date(),
+    uptime: Date.now()
+  };
+
+  // An existing client (a test stand-in, or one shared with the application) is used instead of creating one
+  constructor(config: Omit<RedisStorageConfig, 'type'>, client?: RedisClient) {
+    this.config = config;
+    this.externalClient = client;
+    this.keyPrefix = config.options?.keyPrefix ?? DEFAULT_KEY_PREFIX;
+  }
+
+  async connect(): Promise<void> {
+    try {
+      const options = this.config.options;
+      const client = this.externalClient || createClient({
+        url: this.config.connectionString,
+        // Fixed delay between reconnect attempts, node-redis' default backs off up to 500ms
+        ...(options?.retryDelayOnFailover !== undefined
+          ? { socket: { reconnectStrategy: () => options.retryDelayOnFailover! } }
+          : {})
+      });
+      this.client = client;
+
+      // Without a listener, a dropped connection would crash the process
+      client.on('error', this.handleClientError);
+
+      if (!client.isOpen) {
+        await client.connect();
+      }
+      if (options?.enableReadyCheck) {
+        await client.ping();
+      }
+
+      this.isConnectedFlag = true;
+      this.emitEvent({
+        type: 'connect',
+        timestamp: new Date()
+      });
+    } catch (error) {
+      this.isConnectedFlag = false;
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.client) {
+      this.client.off('error', this.handleClientError);
+      // A client passed in belongs to the caller
+      if (!this.externalClient && this.client.isOpen) {
+        await this.client.quit();
+      }
+    }
+    this.client = null;
+
+    this.isConnectedFlag = false;
+    this.emitEvent({
+      type: 'disconnect',
+      timestamp: new Date()
+    });
+  }
+
+  isConnected(): boolean {
+    return this.isConnectedFlag && this.client !== null && this.client.isReady;
+  }
+
+  async getItem<T = string>(key: string): Promise<T | undefined> {
+    const client = this.getClient();
+
+    try {
+      const raw = await client.get(this.prefixed(key));
+      if (raw === null) {
+        this.updateStats('miss');
+        return undefined;
+      }
+
+      this.updateStats('hit');
+      const value = JSON.parse(raw) as T;
+      this.emitEvent({
+        type: 'get',
+        timestamp: new Date(),
+        key,
+        data: value
+      });
+
+      return value;
+    } catch (error) {
+      this.emitError(error, key);
+      throw error;
+    }
+  }
+
+  // ttl is in seconds, without one the configured default applies, if any
+  async setItem<T = string>(key: string, value: T, ttl?: number): Promise<void> {
+    const client = this.getClient();
+
+    try {
+      const expiry = this.expiry(ttl);
+      await client.set(this.prefixed(key), JSON.stringify(value), expiry ? { EX: expiry } : {});
+
+      this.emitEvent({
+        type: 'set',
+        timestamp: new Date(),
+        key,
+        data: value
+      });
+    } catch (error) {
+      this.emitError(error, key);
+      throw error;
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    const client = this.getClient();
+
+    try {
+      await client.del(this.prefixed(key));
+
+      this.emitEvent({
+        type: 'delete',
+        timestamp: new Date(),
+        key
+      });
+    } catch (error) {
+      this.emitError(error, key);
+      throw error;
+    }
+  }
+
+  // Removes this storage's keys only, other data in the Redis database is left alone
+  async clear(): Promise<void> {
+    const client = this.getClient();
+
+    try {
+      for await (const batch of this.scanBatches()) {
+        await client.del(batch);
+      }
+
+      this.emitEvent({
+        type: 'clear',
+        timestamp: new Date()
+      });
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getItems<T = string>(keys: string[]): Promise<Record<string, T>> {
+    const client = this.getClient();
+    const result: Record<string, T> = {};
+
+    try {
+      for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+        const batch = keys.slice(i, i + BATCH_SIZE);
+        const values = await client.mGet(batch.map(key => this.prefixed(key)));
+
+        batch.forEach((key, index) => {
+          const raw = values[index];
+          if (raw === null || raw === undefined) {
+            this.updateStats('miss');
+          } else {
+            this.updateStats('hit');
+            result[key] = JSON.parse(raw) as T;
+          }
+        });
+      }
+
+      return result;
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async setItems<T = string>(items: Record<string, T>, ttl?: number): Promise<void> {
+    const client = this.getClient();
+
+    try {
+      const expiry = this.expiry(ttl);
+      const entries = Object.entries(items);
+
+      for (let i = 0; i < entries.length; i += BATCH_SIZE) {
+        const pipeline = client.multi();
+        for (const [key, value] of entries.slice(i, i + BATCH_SIZE)) {
+          pipeline.set(this.prefixed(key), JSON.stringify(value), expiry ? { EX: expiry } : {});
+        }
+        // Pipelined, not a MULTI/EXEC transaction
+        await pipeline.execAsPipeline();
+      }
+
+      for (const [key, value] of entries) {
+        this.emitEvent({
+          type: 'set',
+          timestamp: new Date(),
+          key,
+          data: value
+        });
+      }
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async removeItems(keys: string[]): Promise<void> {
+    const client = this.getClient();
+
+    try {
+      for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+        await client.del(keys.slice(i, i + BATCH_SIZE).map(key => this.prefixed(key)));
+      }
+
+      for (const key of keys) {
+        this.emitEvent({
+          type: 'delete',
+          timestamp: new Date(),
+          key
+        });
+      }
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  // SCAN rather than KEYS, which blocks the server while it walks the whole keyspace
+  async getKeys(): Promise<string[]> {
+    this.getClient();
+
+    try {
+      const keys: string[] = [];
+      for await (const batch of this.scanBatches()) {
+        keys.push(...batch.map(key => key.slice(this.keyPrefix.length)));
+      }
+      return keys;
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async getEntries<T = string>(): Promise<[string, T][]> {
+    const keys = await this.getKeys();
+    const items = await this.getItems<T>(keys);
+
+    // Keys that expired between SCAN and MGET are left out
+    return keys
+      .filter(key => key in items)
+      .map(key => [key, items[key]!] as [string, T]);
+  }
+
+  async hasKey(key: string): Promise<boolean> {
+    const client = this.getClient();
+
+    try {
+      return (await client.exists(this.prefixed(key))) > 0;
+    } catch (error) {
+      this.emitError(error, key);
+      throw error;
+    }
+  }
+
+  async getStats(): Promise<StorageStats> {
+    const client = this.getClient();
+
+    let totalItems = 0;
+    let totalSize = 0;
+    for await (const batch of this.scanBatches()) {
+      const pipeline = client.multi();
+      for (const key of batch) {
+        pipeline.strLen(key);
+      }
+      const sizes = await pipeline.execAsPipeline();
+      totalItems += batch.length;
+      totalSize += sizes.reduce<number>((sum, size) => sum + Number(size), 0);
+    }
+
+    return {
+      totalItems,
+      totalSize,
+      expiredItems: 0, // Redis expires keys itself and doesn't report them per prefix
+      hitRate: this.stats.hitRate,
+      missRate: this.stats.missRate,
+      lastCleanup: this.stats.lastCleanup,
+      uptime: Date.now() - this.stats.uptime
+    };
+  }
+
+  // Nothing to do, expired keys are removed by Redis
+  async cleanup(): Promise<number> {
+    this.stats.lastCleanup = new Date();
+
+    this.emitEvent({
+      type: 'expire',
+      timestamp: this.stats.lastCleanup,
+      data: { removedCount: 0 }
+    });
+
+    return 0;
+  }
+
+  // Same layout as MemoryStorage backups, with expiresAt taken from each key's remaining TTL
+  async backup(): Promise<string> {
+    const client = this.getClient();
+
+    try {
+      const storage: [string, { value: any; expiresAt?: string }][] = [];
+      for await (const batch of this.scanBatches()) {
+        const pipeline = client.multi();
+        for (const key of batch) {
+          pipeline.get(key);
+          pipeline.pTTL(key);
+        }
+        const replies = await pipeline.execAsPipeline();
+
+        batch.forEach((key, index) => {
+          const raw = replies[index * 2] as string | null;
+          const pttl = Number(replies[index * 2 + 1]);
+          if (raw === null) {
+            return;
+          }
+          storage.push([key.slice(this.keyPrefix.length), {
+            value: JSON.parse(raw),
+            ...(pttl > 0 ? { expiresAt: new Date(Date.now() + pttl).toISOString() } : {})
+          }]);
+        });
+      }
+
+      return JSON.stringify({
+        storage,
+        timestamp: new Date().toISOString()
+      }, null, 2);
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  async restore(backup: string): Promise<void> {
+    const client = this.getClient();
+
+    try {
+      const data = JSON.parse(backup);
+
+      await this.clear();
+
+      const now = Date.now();
+      const pipeline = client.multi();
+      for (const [key, item] of data.storage) {
+        const remaining = item.expiresAt ? new Date(item.expiresAt).getTime() - now : undefined;
+        if (remaining !== undefined && remaining <= 0) {
+          continue;
+        }
+        pipeline.set(this.prefixed(key), JSON.stringify(item.value), remaining ? { PX: remaining } : {});
+      }
+      await pipeline.execAsPipeline();
+
+      this.emitEvent({
+        type: 'info',
+        timestamp: new Date(),
+        data: { message: 'Storage restored from backup' }
+      });
+    } catch (error) {
+      this.emitError(error);
+      throw error;
+    }
+  }
+
+  on(event: string, callback: (event: StorageEvent) => void): void {
+    if (!this.eventHandlers.has(event)) {
+      this.eventHandlers.set(event, []);
+    }
+    this.eventHandlers.get(event)!.push(callback);
+  }
+
+  off(event: string, callback: (event: StorageEvent) => void): void {
+    const handlers = this.eventHandlers.get(event);
+    if (handlers) {
+      const index = handlers.indexOf(callback);
+      if (index > -1) {
+        handlers.splice(index, 1);
+      }
+    }
+  }
+
+  private getClient(): RedisClient {
+    if (!this.client) {
+      throw new Error('Storage not connected');
+    }
+    return this.client;
+  }
+
+  private prefixed(key: string): string {
+    return `${this.keyPrefix}${key}`;
+  }
+
+  private expiry(ttl?: number): number | undefined {
+    const seconds = ttl ?? this.config.options?.ttl;
+    return seconds && seconds > 0 ? Math.ceil(seconds) : undefined;
+  }
+
+  // Full (prefixed) keys of this storage, a batch per SCAN round trip
+  private async *scanBatches(): AsyncGenerator<string[]> {
+    const client = this.getClient();
+    // Glob characters in the prefix are matched literally
+    const match = `${this.keyPrefix.replace(/[*?[\]\\]/g, '\\$&')}*`;
+
+    let batch: string[] = [];
+    for await (const key of client.scanIterator({ MATCH: match, COUNT: BATCH_SIZE })) {
+      batch.push(key);
+      if (batch.length >= BATCH_SIZE) {
+        yield batch;
+        batch = [];
+      }
+    }
+    if (batch.length > 0) {
+      yield batch;
+    }
+  }
+
+  private handleClientError = (error: Error): void => {
+    this.emitError(error);
+  };
+
+  private emitError(error: unknown, key?: string): void {
+    this.emitEvent({
+      type: 'error',
+      timestamp: new Date(),
+      ...(key !== undefined ? { key } : {}),
+      error: error as Error
+    });
+  }
+
+  private emitEvent(event: StorageEvent): void {
+    const handlers = this.eventHandlers.get(event.type);
+    if (handlers) {
+      for (const handler of handlers) {
+        try {
+          handler(event);
+        } catch (error) {
+          console.error('Error in storage event handler:', error);
+        }
+      }
+    }
+  }
+
+  private updateStats(type: 'hit' | 'miss'): void {
+    if (type === 'hit') {
+      this.stats.hitRate++;
+    } else {
+      this.stats.missRate++;
+    }
+  }
+}
@@ -1,5 +1,5 @@
-import { DatabaseAdapter, QueryOptions, QueryResult, DatabaseHealth, DatabaseEvent } from '../types/database';
-import { UserSession } from '../types';
+import { DatabaseAdapter, QueryOptions, QueryResult, DatabaseHealth, DatabaseEvent, SQLiteConfig } from '../types/database';
+import { UserSession, TransactionRecord } from '../types';
 import { Database, open } from 'sqlite';
 import sqlite3 from 'sqlite3';
 
@@ -8,18 +8,25 @@ export class SQLiteDatabase implements DatabaseAdapter {
   private isConnectedFlag = false;
   private eventHandlers: Map<string, ((event: DatabaseEvent) => void)[]> = new Map();
   private databasePath: string;
+  private options: SQLiteConfig['options'];
 
-  constructor(config: { databasePath: string }) {
+  constructor(config: Omit<SQLiteConfig, 'type'>) {
     this.databasePath = config.databasePath;
+    this.options = config.options;
   }
 
   async connect(): Promise<void> {
     try {
       this.db = await open({
         filename: this.databasePath,
-        driver: sqlite3.Database
+        driver: this.options?.verbose ? sqlite3.verbose().Database : sqlite3.Database
       });
 
+      // Wait for locks held by other processes instead of failing with SQLITE_BUSY
+      if (this.options?.timeout) {
+        this.db.configure('busyTimeout', this.options.timeout);
+      }
+
       // Create tables if they don't exist
       await this.createTables();
       
@@ -75,8 +82,8 @@ export class SQLiteDatabase implements DatabaseAdapter {
         session.createdAt.toISOString(),
         session.updatedAt.toISOString(),
         session.lastActivity.toISOString(),
-        (session.sessionData as any)?.chainId || null,
-        (session.sessionData as any)?.namespaces?.['eip155']?.chains?.[0] || null
+        session.activeChainId ?? null,
+        session.sessionData?.namespaces['eip155']?.chains?.[0] || null
       ]);
 
       this.emitEvent({
@@ -239,6 +246,132 @@ export class SQLiteDatabase implements DatabaseAdapter {
     }
   }
 
+  async saveTransactionRecord(record: TransactionRecord): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      await this.db.run(`
+        INSERT OR REPLACE INTO transaction_history (
+          id, userId, type, chainId, request, hash, signature,
+          status, error, createdAt, updatedAt
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `, [
+        record.id,
+        record.userId,
+        record.type,
+        record.chainId ?? null,
+        JSON.stringify(record.request),
+        record.hash || null,
+        record.signature || null,
+        record.status,
+        record.error || null,
+        record.createdAt.toISOString(),
+        record.updatedAt.toISOString()
+      ]);
+    } catch (error) {
+      this.emitEvent({
+        type: 'error',
+        timestamp: new Date(),
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
+  async updateTransactionRecord(id: string, updates: Partial<TransactionRecord>): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const entries = Object.entries(updates).filter(([key]) => key !== 'id');
+      if (entries.length === 0) {
+        return;
+      }
+
+      const updateFields = entries.map(([key]) => `${key} = ?`).join(', ');
+      const values = entries.map(([, value]) => {
+        if (value instanceof Date) {
+          return value.toISOString();
+        }
+        if (typeof value === 'object' && value !== null) {
+          return JSON.stringify(value);
+        }
+        return value ?? null;
+      });
+
+      values.push(id);
+
+      await this.db.run(`
+        UPDATE transaction_history SET ${updateFields} WHERE id = ?
+      `, values);
+    } catch (error) {
+      this.emitEvent({
+        type: 'error',
+        timestamp: new Date(),
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
+  async getTransactionHistory(userId: string, options?: QueryOptions): Promise<QueryResult<TransactionRecord>> {
+    if (!this.db) {
+      throw new Error('Database not connected');
+    }
+
+    try {
+      const conditions = ['userId = ?'];
+      const params: any[] = [userId];
+
+      if (options?.where) {
+        for (const [key, value] of Object.entries(options.where)) {
+          conditions.push(`${key} = ?`);
+          params.push(value);
+        }
+      }
+
+      const whereClause = ` WHERE ${conditions.join(' AND ')}`;
+      let query = `SELECT * FROM transaction_history${whereClause}`;
+      query += ` ORDER BY ${options?.orderBy || 'createdAt'} ${options?.orderDirection || 'DESC'}`;
+
+      const countParams = [...params];
+      if (options?.limit) {
+        query += ` LIMIT ?`;
+        params.push(options.limit);
+        
+        if (options?.offset) {
+          query += ` OFFSET ?`;
+          params.push(options.offset);
+        }
+      }
+
+      const rows = await this.db.all(query, params);
+      const records = rows.map(row => this.rowToTransactionRecord(row));
+
+      const countResult = await this.db.get(
+        `SELECT COUNT(*) as count FROM transaction_history${whereClause}`,
+        countParams
+      );
+
+      return {
+        data: records,
+        total: countResult?.count || 0,
+        limit: options?.limit || records.length,
+        offset: options?.offset || 0
+      };
+    } catch (error) {
+      this.emitEvent({
+        type: 'error',
+        timestamp: new Date(),
+        error: error as Error
+      });
+      throw error;
+    }
+  }
+
   async cleanupExpiredSessions(timeout: number = 24 * 60 * 60 * 1000): Promise<number> {
     if (!this.db) {
       throw new Error('Database not connected');
@@ -436,6 +569,27 @@ export class SQLiteDatabase implements DatabaseAdapter {
       CREATE INDEX IF NOT EXISTS idx_user_sessions_isActive ON user_sessions(isActive);
       CREATE INDEX IF NOT EXISTS idx_user_sessions_lastActivity ON user_sessions(lastActivity);
     `);
+
+    await this.db.exec(`
+      CREATE TABLE IF NOT EXISTS transaction_history (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        type TEXT NOT NULL,
+        chainId INTEGER,
+        request TEXT NOT NULL,
+        hash TEXT,
+        signature TEXT,
+        status TEXT NOT NULL,
+        error TEXT,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL
+      )
+    `);
+
+    await this.db.exec(`
+      CREATE INDEX IF NOT EXISTS idx_transaction_history_userId ON transaction_history(userId, createdAt);
+      CREATE INDEX IF NOT EXISTS idx_transaction_history_hash ON transaction_history(hash);
+    `);
   }
 
   private rowToSession(row: any): UserSession {
@@ -448,10 +602,27 @@ export class SQLiteDatabase implements DatabaseAdapter {
       createdAt: new Date(row.createdAt),
       updatedAt: new Date(row.updatedAt),
       lastActivity: new Date(row.lastActivity),
+      ...(row.chainId !== null ? { activeChainId: row.chainId } : {}),
       wcClient: null // Placeholder - will be set by the SDK
     };
   }
 
+  private rowToTransactionRecord(row: any): TransactionRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      type: row.type,
+      ...(row.chainId !== null ? { chainId: row.chainId } : {}),
+      request: JSON.parse(row.request),
+      ...(row.hash ? { hash: row.hash } : {}),
+      ...(row.signature ? { signature: row.signature } : {}),
+      status: row.status,
+      ...(row.error ? { error: row.error } : {}),
+      createdAt: new Date(row.createdAt),
+      updatedAt: new Date(row.updatedAt)
+    };
+  }
+
   private emitEvent(event: DatabaseEvent): void {
     const handlers = this.eventHandlers.get(event.type);
     if (handlers) {
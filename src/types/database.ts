@@ -1,4 +1,4 @@
-import { UserSession } from './index';
+import { UserSession, TransactionRecord } from './index';
 
 // Database Connection Types
 export interface DatabaseConnection {
@@ -45,24 +45,14 @@ export interface MySQLConfig {
 export interface MongoDBConfig {
   type: 'mongodb';
   connectionString: string;
-  databaseName: string;
+  databaseName?: string; // Defaults to the database named in connectionString
   options?: {
     useNewUrlParser?: boolean;
     useUnifiedTopology?: boolean;
     maxPoolSize?: number;
     serverSelectionTimeoutMS?: number;
-  };
-}
-
-// Redis Types
-export interface RedisConfig {
-  type: 'redis';
-  connectionString: string;
-  options?: {
-    retryDelayOnFailover?: number;
-    enableReadyCheck?: boolean;
-    maxRetriesPerRequest?: number;
-    lazyConnect?: boolean;
+    // Seconds of inactivity before MongoDB's TTL monitor removes a session (default 24 hours)
+    ttl?: number;
   };
 }
 
@@ -75,6 +65,23 @@ export interface MemoryConfig {
   };
 }
 
+// The untyped shape DatabaseConfig had before the per-type configurations, still accepted.
+// For SQLite, connectionString is the database file
+export interface LegacyDatabaseConfig {
+  type: 'sqlite' | 'postgresql' | 'mysql' | 'mongodb' | 'memory';
+  connectionString?: string;
+  options?: Record<string, any>;
+}
+
+// Any of the supported database configurations, selected by type
+export type DatabaseConfig =
+  | SQLiteConfig
+  | PostgreSQLConfig
+  | MySQLConfig
+  | MongoDBConfig
+  | MemoryConfig
+  | LegacyDatabaseConfig;
+
 // Database Session Storage
 export interface DatabaseSession {
   userId: string;
@@ -114,11 +121,19 @@ export interface QueryResult<T> {
 }
 
 // Database Health Check
+export interface DatabasePoolStats {
+  total: number; // Connections open, busy or idle
+  idle: number;
+  waiting: number; // Queries queued for a free connection
+  max?: number; // Configured pool size
+}
+
 export interface DatabaseHealth {
   isConnected: boolean;
   responseTime: number;
   activeConnections: number;
   totalSessions: number;
+  pool?: DatabasePoolStats; // Adapters with a connection pool
   lastError?: string;
   timestamp: Date;
 }
@@ -145,6 +160,11 @@ export interface DatabaseAdapter {
   updateSession(userId: string, updates: Partial<UserSession>): Promise<void>;
   deleteSession(userId: string): Promise<void>;
   
+  // Transaction History
+  saveTransactionRecord(record: TransactionRecord): Promise<void>;
+  updateTransactionRecord(id: string, updates: Partial<TransactionRecord>): Promise<void>;
+  getTransactionHistory(userId: string, options?: QueryOptions): Promise<QueryResult<TransactionRecord>>;
+  
   // Maintenance
   cleanupExpiredSessions(timeout?: number): Promise<number>;
   getHealth(): Promise<DatabaseHealth>;
@@ -10,8 +10,11 @@ export type EventType =
   | 'session_event'
   | 'transaction_request'
   | 'transaction_response'
+  | 'transaction_confirmed'
+  | 'transaction_failed'
   | 'sign_request'
   | 'sign_response'
+  | 'contract_event'
   | 'error'
   | 'warning'
   | 'info';
@@ -121,6 +124,34 @@ export interface TransactionResponseEvent extends BaseEvent {
   };
 }
 
+export interface TransactionConfirmedEvent extends BaseEvent {
+  type: 'transaction_confirmed';
+  userId: string;
+  data: {
+    hash: string;
+    chainId: number;
+    blockNumber: bigint;
+    confirmations: number;
+    receipt: any;
+    replacedBy?: string;
+  };
+}
+
+export interface TransactionFailedEvent extends BaseEvent {
+  type: 'transaction_failed';
+  userId: string;
+  data: {
+    hash?: string; // Not set for a batch call that was never included on chain
+    chainId: number;
+    batchId?: string; // sendCalls batches
+    callIndex?: number;
+    reason: 'reverted' | 'dropped' | 'replaced' | 'timeout' | 'error';
+    error?: string;
+    receipt?: any;
+    replacedBy?: string;
+  };
+}
+
 // Sign Events
 export interface SignRequestEvent extends BaseEvent {
   type: 'sign_request';
@@ -142,6 +173,22 @@ export interface SignResponseEvent extends BaseEvent {
   };
 }
 
+// Contract Events
+export interface ContractEventEvent extends BaseEvent {
+  type: 'contract_event';
+  data: {
+    watchId: string;
+    eventName: string;
+    args: Record<string, any> | readonly any[];
+    address: string;
+    chainId: number;
+    blockNumber: bigint;
+    blockHash: string;
+    transactionHash: string;
+    logIndex: number;
+  };
+}
+
 // System Events
 export interface ErrorEvent extends BaseEvent {
   type: 'error';
@@ -183,8 +230,11 @@ export type WalletConnectEvent =
   | SessionEventEvent
   | TransactionRequestEvent
   | TransactionResponseEvent
+  | TransactionConfirmedEvent
+  | TransactionFailedEvent
   | SignRequestEvent
   | SignResponseEvent
+  | ContractEventEvent
   | ErrorEvent
   | WarningEvent
   | InfoEvent;
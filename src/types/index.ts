@@ -1,6 +1,7 @@
 // import { SignClient } from '@walletconnect/sign-client';
-import { SessionTypes } from '@walletconnect/types';
-import { Address, Hex } from 'viem';
+import { AuthTypes, SessionTypes } from '@walletconnect/types';
+import { Address, Hex, PublicClient } from 'viem';
+import { DatabaseConfig, QueryOptions, QueryResult } from './database';
 
 // Core SDK Types
 export interface WalletConnectSDKConfig {
@@ -18,7 +19,7 @@ export interface WalletConnectSDKConfig {
 
 export interface StorageAdapter {
   getItem<T = string>(key: string): Promise<T | undefined>;
-  setItem<T = string>(key: string, value: T): Promise<void>;
+  setItem<T = string>(key: string, value: T, ttl?: number): Promise<void>; // ttl in seconds
   removeItem(key: string): Promise<void>;
   getKeys(): Promise<string[]>;
   getEntries<T = string>(): Promise<[string, T][]>;
@@ -36,7 +37,12 @@ export interface UserSession {
   userId: string;
   wcClient: any; // SignClient type
   topic?: string;
+  pairingTopic?: string;
   address?: Address;
+  solanaAddress?: string;
+  accounts?: Record<string, string[]>; // CAIP-2 chain id -> addresses approved on that chain
+  chains?: string[];
+  activeChainId?: number; // Last chain reported by a chainChanged event
   sessionData?: SessionTypes.Struct;
   isActive: boolean;
   createdAt: Date;
@@ -53,12 +59,16 @@ export interface SessionInfo {
   lastActivity: Date;
   chainId: number;
   namespace: string;
+  accounts: string[];
+  chains: string[];
 }
 
 // Connection Types
 export interface ConnectionRequest {
   userId: string;
   chainId?: number;
+  chainIds?: number[];
+  solanaChains?: string[]; // CAIP-2 Solana clusters, required when namespace is 'solana', optional otherwise
   namespace?: string;
   methods?: string[];
   events?: string[];
@@ -89,13 +99,79 @@ export interface TransactionRequest {
   maxPriorityFeePerGas?: bigint;
   nonce?: number;
   chainId?: number;
+  speed?: FeeSpeed; // Fill missing gas and fee fields with this preset
+  waitForReceipt?: boolean;
+  confirmations?: number;
 }
 
+export type TransactionStatus = 'pending' | 'confirmed' | 'reverted' | 'dropped' | 'replaced';
+
 export interface TransactionResponse {
   success: boolean;
   hash?: Hex;
   error?: string;
   receipt?: any;
+  status?: TransactionStatus;
+  replacedBy?: Hex;
+}
+
+// Batched Call Types (EIP-5792)
+export interface BatchCall {
+  to: Address;
+  data?: Hex;
+  value?: bigint;
+}
+
+export interface SendCallsOptions {
+  chainId?: number;
+  atomic?: boolean; // Require all-or-nothing execution, fails for wallets that can't guarantee it
+  speed?: FeeSpeed; // Sequential fallback only: fill gas and fees with this preset
+  waitForEach?: boolean; // Sequential fallback only: mine each call before sending the next
+  waitForReceipt?: boolean;
+  confirmations?: number;
+}
+
+export type BatchMode = 'wallet_sendCalls' | 'sequential';
+
+export type BatchStatus = 'pending' | 'confirmed' | 'failed' | 'partial';
+
+export type BatchCallStatus = 'pending' | 'confirmed' | 'reverted' | 'failed' | 'skipped';
+
+export interface BatchCallResult {
+  index: number;
+  status: BatchCallStatus;
+  hash?: Hex;
+  receipt?: any;
+  error?: string;
+}
+
+export interface SendCallsResponse {
+  success: boolean;
+  batchId?: string;
+  mode?: BatchMode;
+  atomic?: boolean; // Whether the calls execute all-or-nothing
+  status?: BatchStatus;
+  calls?: BatchCallResult[];
+  error?: string;
+}
+
+// Transaction History Types
+export type TransactionRecordType = 'transaction' | 'contract_call' | 'sign_message' | 'sign_typed_data';
+
+export type TransactionRecordStatus = 'requested' | 'signed' | 'failed' | TransactionStatus;
+
+export interface TransactionRecord {
+  id: string;
+  userId: string;
+  type: TransactionRecordType;
+  chainId?: number;
+  request: Record<string, any>; // JSON-safe copy of the request (bigints as strings)
+  hash?: Hex;
+  signature?: string;
+  status: TransactionRecordStatus;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 // Signing Types
@@ -103,6 +179,8 @@ export interface SignMessageRequest {
   userId: string;
   message: string;
   address?: Address;
+  chainId?: number;
+  verify?: boolean; // Verify the returned signature, overrides SDKOptions.verifySignatures
 }
 
 export interface SignTypedDataRequest {
@@ -112,17 +190,136 @@ export interface SignTypedDataRequest {
   value: any;
   primaryType: string;
   address?: Address;
+  chainId?: number;
+  verify?: boolean; // Verify the returned signature, overrides SDKOptions.verifySignatures
 }
 
 export interface SignResponse {
   success: boolean;
   signature?: string;
+  verification?: SignatureVerification;
+  error?: string;
+}
+
+// Signature Verification Types
+export type SignatureKind = 'eoa' | 'erc1271' | 'erc6492';
+
+export interface VerifyMessageRequest {
+  address: Address;
+  message: string;
+  signature: Hex;
+  chainId?: number; // Chain to check smart account code on (default network chain)
+}
+
+export interface VerifyTypedDataRequest {
+  address: Address;
+  domain: any;
+  types: any;
+  primaryType: string;
+  value: any;
+  signature: Hex;
+  chainId?: number; // Defaults to domain.chainId, then the default network chain
+}
+
+export interface SignatureVerification {
+  valid: boolean;
+  kind?: SignatureKind; // EOA recovery, ERC-1271 isValidSignature or ERC-6492 wrapped signature
+  address: Address;
+  chainId: number;
+  error?: string;
+}
+
+// Solana Types
+export interface SolanaSignMessageRequest {
+  userId: string;
+  message: string;
+  pubkey?: string;
+  chain?: string; // CAIP-2 Solana cluster
+}
+
+export interface SolanaTransactionRequest {
+  userId: string;
+  transaction: string; // Serialized transaction
+  encoding?: 'base58' | 'base64';
+  pubkey?: string;
+  chain?: string;
+  sendOptions?: Record<string, any>; // Only used by signAndSendSolanaTransaction
+}
+
+export interface SolanaSignResponse {
+  success: boolean;
+  signature?: string;
+  transaction?: string; // Signed transaction (base64), when the wallet returns it
+  error?: string;
+}
+
+// Chain Management Types
+export interface ChainSwitchResponse {
+  success: boolean;
+  chainId?: number;
+  error?: string;
+}
+
+// Sign-In with Ethereum (EIP-4361) Types
+export interface SiweRequest {
+  domain: string; // RFC 3986 authority requesting the sign-in, e.g. "example.com"
+  uri: string;
+  statement?: string;
+  chainId?: number;
+  address?: Address;
+  expiresIn?: number; // Milliseconds until the message expires (default 10 minutes)
+  notBefore?: Date;
+  requestId?: string;
+  resources?: string[];
+}
+
+export interface SiweIdentity {
+  userId: string;
+  address: Address;
+  chainId: number;
+  domain: string;
+  uri: string;
+  nonce: string;
+  issuedAt: Date;
+  expirationTime?: Date;
+  statement?: string;
+  resources?: string[];
+  message: string;
+  signature: string;
+}
+
+export interface SiweResponse {
+  success: boolean;
+  identity?: SiweIdentity;
+  error?: string;
+}
+
+// One-click auth (wc_sessionAuthenticate) Types
+export interface AuthenticateRequest {
+  userId: string;
+  domain: string;
+  uri: string;
+  statement?: string;
+  chainIds?: number[]; // Defaults to the network's default chain
+  methods?: string[]; // Methods granted through the ReCap and the resulting session
+  resources?: string[]; // Extra resources, ReCap URNs are merged with the one built from methods
+  expiresIn?: number; // Milliseconds until the sign-in message expires (default 10 minutes)
+}
+
+export type AuthenticationMethod = 'one-click' | 'siwe';
+
+export interface AuthenticateResponse {
+  success: boolean;
+  method?: AuthenticationMethod; // 'siwe' when the wallet fell back to a plain session proposal
+  cacao?: AuthTypes.Cacao;
+  identity?: SiweIdentity;
+  session?: SessionInfo;
   error?: string;
 }
 
 // Event Types
 export interface WalletConnectEvent {
-  type: 'session_connect' | 'session_disconnect' | 'session_update' | 'session_expire' | 'session_ping' | 'session_event' | 'transaction_response' | 'sign_response' | 'info' | 'error';
+  type: 'session_connect' | 'session_disconnect' | 'session_update' | 'session_expire' | 'session_ping' | 'session_event' | 'transaction_response' | 'transaction_confirmed' | 'transaction_failed' | 'sign_response' | 'contract_event' | 'info' | 'error';
   topic?: string;
   userId?: string;
   sessionId?: string;
@@ -132,23 +329,8 @@ export interface WalletConnectEvent {
 }
 
 // Database Types
-export interface DatabaseConfig {
-  type: 'sqlite' | 'postgresql' | 'mysql' | 'mongodb' | 'redis' | 'memory';
-  connectionString?: string;
-  options?: Record<string, any>;
-}
-
-export interface DatabaseAdapter {
-  connect(): Promise<void>;
-  disconnect(): Promise<void>;
-  saveSession(session: UserSession): Promise<void>;
-  getSession(userId: string): Promise<UserSession | null>;
-  getAllSessions(): Promise<UserSession[]>;
-  updateSession(userId: string, updates: Partial<UserSession>): Promise<void>;
-  deleteSession(userId: string): Promise<void>;
-  cleanupExpiredSessions(): Promise<void>;
-  isConnected(): boolean;
-}
+// Database configuration and adapter live in ./database
+export type { DatabaseConfig, DatabaseAdapter } from './database';
 
 // Chain and Network Types
 export interface ChainConfig {
@@ -161,6 +343,7 @@ export interface ChainConfig {
     symbol: string;
     decimals: number;
   };
+  multicallAddress?: Address; // Multicall3 deployment, known chains have it built in
 }
 
 export interface NetworkConfig {
@@ -184,9 +367,13 @@ export enum ErrorCodes {
   SESSION_NOT_FOUND = 'SESSION_NOT_FOUND',
   SESSION_EXPIRED = 'SESSION_EXPIRED',
   CONNECTION_FAILED = 'CONNECTION_FAILED',
+  CONNECTION_REJECTED = 'CONNECTION_REJECTED',
   TRANSACTION_FAILED = 'TRANSACTION_FAILED',
   SIGNATURE_FAILED = 'SIGNATURE_FAILED',
   INVALID_REQUEST = 'INVALID_REQUEST',
+  CHAIN_NOT_APPROVED = 'CHAIN_NOT_APPROVED',
+  SIMULATION_REVERTED = 'SIMULATION_REVERTED',
+  AUTHENTICATION_FAILED = 'AUTHENTICATION_FAILED',
   DATABASE_ERROR = 'DATABASE_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR',
   TIMEOUT = 'TIMEOUT',
@@ -210,10 +397,39 @@ export interface WalletConnectMethods {
   sendTransaction(request: TransactionRequest): Promise<TransactionResponse>;
   signMessage(request: SignMessageRequest): Promise<SignResponse>;
   signTypedData(request: SignTypedDataRequest): Promise<SignResponse>;
+  verifyMessage(request: VerifyMessageRequest): Promise<SignatureVerification>;
+  verifyTypedData(request: VerifyTypedDataRequest): Promise<SignatureVerification>;
+  
+  // Authentication
+  signInWithEthereum(userId: string, options: SiweRequest): Promise<SiweResponse>;
+  verifySiwe(message: string, signature: string, userId?: string): Promise<SiweResponse>;
+  authenticate(
+    request: AuthenticateRequest,
+    onPending?: (connection: ConnectionResponse) => void | Promise<void>
+  ): Promise<AuthenticateResponse>;
+  
+  // Contract Events
+  getContractLogs(request: ContractLogsRequest): Promise<ContractLogsResponse>;
+  watchContractEvents(request: WatchContractEventsRequest): Promise<string>;
+  unwatchContractEvents(watchId: string, options?: { clearCursor?: boolean }): Promise<void>;
+  
+  // Batched Calls
+  sendCalls(userId: string, calls: BatchCall[], options?: SendCallsOptions): Promise<SendCallsResponse>;
+  getCallsStatus(userId: string, batchId: string): Promise<SendCallsResponse>;
+  
+  // Solana
+  signSolanaMessage(request: SolanaSignMessageRequest): Promise<SolanaSignResponse>;
+  signSolanaTransaction(request: SolanaTransactionRequest): Promise<SolanaSignResponse>;
+  signAndSendSolanaTransaction(request: SolanaTransactionRequest): Promise<SolanaSignResponse>;
   
   // Account Info
-  getAccounts(userId: string): Promise<Address[]>;
-  getBalance(userId: string, address?: Address): Promise<bigint>;
+  getAccounts(userId: string, chainId?: number): Promise<Address[]>;
+  getBalance(userId: string, address?: Address, chainId?: number): Promise<bigint>;
+  getTransactionHistory(userId: string, options?: QueryOptions): Promise<QueryResult<TransactionRecord>>;
+  
+  // Chain Management
+  switchChain(userId: string, chainId: number): Promise<ChainSwitchResponse>;
+  addChain(userId: string, chain: ChainConfig): Promise<ChainSwitchResponse>;
   
   // Events
   on(event: string, callback: (event: WalletConnectEvent) => void): void;
@@ -244,8 +460,42 @@ export interface SDKOptions {
   timeouts?: Partial<TimeoutConfig>;
   supportedWallets?: string[];
   defaultWallet?: string;
+  clientMode?: SignClientMode;
+  clientPoolSize?: number;
+  nonceManagement?: boolean; // Assign sequential nonces per address and serialize sends
+  gas?: GasConfig;
+  verifySignatures?: boolean; // Verify signatures returned by signMessage and signTypedData
+  nft?: NftConfig;
 }
 
+// Gas and Fee Types
+export type FeeSpeed = 'slow' | 'normal' | 'fast';
+
+export interface FeePreset {
+  rewardPercentile: number; // eth_feeHistory reward percentile used for the priority fee
+  baseFeeMultiplier: number; // Headroom over the next block's base fee
+}
+
+export interface GasConfig {
+  autoFill?: boolean; // Fill missing gas and fee fields before every send
+  speed?: FeeSpeed; // Default 'normal'
+  gasLimitBuffer?: number; // Percent added to estimated gas, default 20
+  feeHistoryBlocks?: number; // Blocks sampled from eth_feeHistory, default 10
+  presets?: Partial<Record<FeeSpeed, FeePreset>>;
+}
+
+export interface FeeSuggestion {
+  speed: FeeSpeed;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  gasPrice?: bigint; // Only set on chains without EIP-1559
+  baseFeePerGas?: bigint;
+}
+
+// 'per-user' creates a SignClient for every connect() call, 'shared' reuses a
+// fixed pool of SignClients and maps pairing/session topics back to users
+export type SignClientMode = 'per-user' | 'shared';
+
 // Export all types
 // Note: These modules are defined in separate files but may not exist yet
 // export * from './database';
@@ -270,6 +520,10 @@ export interface ContractCallRequest {
   maxFeePerGas?: bigint;
   maxPriorityFeePerGas?: bigint;
   nonce?: number;
+  speed?: FeeSpeed;
+  waitForReceipt?: boolean;
+  confirmations?: number;
+  force?: boolean; // Send even if the pre-flight simulation reverts
 }
 
 export interface ContractCallResponse {
@@ -278,14 +532,27 @@ export interface ContractCallResponse {
   hash?: Hex;
   error?: string;
   receipt?: any;
+  status?: TransactionStatus;
+  replacedBy?: Hex;
+  simulation?: SimulationResult;
+}
+
+export interface SimulationResult {
+  success: boolean;
+  returnData?: Hex;
+  revertReason?: string; // Human readable reason, e.g. 'ERC20: insufficient allowance'
+  errorName?: string; // Decoded error name: 'Error', 'Panic' or a custom error from the ABI
+  errorArgs?: readonly any[];
+  revertData?: Hex; // Raw revert data when it could not be decoded
 }
 
 export interface ContractReadRequest {
-  userId: string;
+  userId?: string; // Used for the chain when contract.chainId is not set, required with via: 'wallet'
   contract: ContractConfig;
   functionName: string;
   args?: any[];
   blockNumber?: bigint;
+  via?: 'rpc' | 'wallet'; // Public RPC (default) or eth_call through the user's wallet
 }
 
 export interface ContractReadResponse {
@@ -318,6 +585,177 @@ export interface FunctionDecodeResponse {
   error?: string;
 } 
 
+// Contract Event Types
+export interface ContractLogsRequest {
+  contract: ContractConfig;
+  eventName?: string; // Every event in the ABI when omitted
+  filter?: Record<string, any> | any[]; // Values for indexed arguments, requires eventName
+  fromBlock?: bigint; // Defaults to toBlock
+  toBlock?: bigint; // Defaults to the latest block
+  userId?: string; // Used for the chain when contract.chainId is not set
+}
+
+export interface ContractEventLog {
+  eventName: string;
+  args: Record<string, any> | readonly any[];
+  address: Address;
+  chainId: number;
+  blockNumber: bigint;
+  blockHash: Hex;
+  transactionHash: Hex;
+  logIndex: number;
+}
+
+export interface ContractLogsResponse {
+  success: boolean;
+  logs?: ContractEventLog[];
+  fromBlock?: bigint;
+  toBlock?: bigint;
+  error?: string;
+}
+
+export interface WatchContractEventsRequest extends Omit<ContractLogsRequest, 'toBlock'> {
+  watchId?: string; // Key of the persisted block cursor, derived from chain, contract, event and user when omitted
+  pollInterval?: number; // Milliseconds between polls
+  confirmations?: number; // Stay this many blocks behind the head so reorged logs aren't emitted (default 0)
+}
+
+// What SDK modules (tokens, NFTs) use to reach the chain and the user's wallet
+export interface SDKModuleContext {
+  logger: Logger;
+  getPublicClient(chainId: number): PublicClient;
+  getDefaultChainId(): number;
+  getAccount(userId: string, chainId?: number): Promise<{ address: Address; chainId: number }>;
+  callContract(request: ContractCallRequest): Promise<ContractCallResponse>;
+}
+
+// Options shared by module writes, passed through to callContract
+export interface ModuleWriteOptions {
+  userId: string;
+  chainId?: number;
+  speed?: FeeSpeed;
+  waitForReceipt?: boolean;
+  confirmations?: number;
+}
+
+// ERC-20 Token Types
+export interface TokenMetadata {
+  address: Address;
+  chainId: number;
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface TokenAmount {
+  raw: bigint; // Amount in base units
+  formatted: string; // Amount scaled by the token's decimals, e.g. '1.5'
+  decimals: number;
+  symbol: string;
+}
+
+export interface TokenBalanceRequest {
+  token: Address;
+  chainId?: number;
+  owner?: Address; // Defaults to the account of userId
+  userId?: string;
+}
+
+export interface TokenAllowanceRequest extends TokenBalanceRequest {
+  spender: Address;
+}
+
+export type TokenApprovalMode = 'exact' | 'infinite';
+
+export interface TokenApproveRequest extends ModuleWriteOptions {
+  token: Address;
+  spender: Address;
+  amount?: string | bigint; // Decimal string in token units, or base units as bigint. Required in exact mode
+  mode?: TokenApprovalMode; // Default 'exact'
+  resetToZero?: boolean | 'auto'; // Zero a non-zero allowance first (USDT-style tokens). 'auto' only when the approve would revert
+}
+
+export interface TokenApproveResponse extends ContractCallResponse {
+  reset?: ContractCallResponse; // The approve(spender, 0) sent first, if any
+}
+
+export interface TokenTransferRequest extends ModuleWriteOptions {
+  token: Address;
+  to: Address;
+  amount: string | bigint; // Decimal string in token units, or base units as bigint
+}
+
+// NFT (ERC-721 / ERC-1155) Types
+export type NftStandard = 'erc721' | 'erc1155';
+
+export interface NftConfig {
+  ipfsGateway?: string; // Gateway ipfs:// URIs are resolved through (default https://ipfs.io/ipfs/)
+  metadataTimeout?: number; // Milliseconds to wait for a metadata document (default 10 seconds)
+  maxMetadataSize?: number; // Largest metadata document accepted, in bytes (default 1 MiB)
+}
+
+export interface NftTokenRequest {
+  contract: Address;
+  tokenId: bigint;
+  chainId?: number;
+  standard?: NftStandard; // Detected through ERC-165 when omitted
+}
+
+export interface NftBalanceRequest {
+  contract: Address;
+  tokenId?: bigint; // Required for ERC-1155
+  chainId?: number;
+  owner?: Address; // Defaults to the account of userId
+  userId?: string;
+  standard?: NftStandard;
+}
+
+export interface NftOperatorRequest {
+  contract: Address;
+  operator: Address;
+  chainId?: number;
+  owner?: Address; // Defaults to the account of userId
+  userId?: string;
+}
+
+export interface NftMetadata {
+  name?: string;
+  description?: string;
+  image?: string;
+  animation_url?: string;
+  external_url?: string;
+  attributes?: any[];
+  [key: string]: unknown;
+}
+
+export interface NftToken {
+  contract: Address;
+  chainId: number;
+  tokenId: bigint;
+  standard: NftStandard;
+  tokenUri: string; // As returned by the contract
+  metadataUrl?: string; // tokenUri resolved to a fetchable URL
+  metadata?: NftMetadata;
+  imageUrl?: string; // metadata.image resolved to a fetchable URL
+  error?: string; // Why the metadata could not be loaded
+}
+
+export interface NftTransferRequest extends ModuleWriteOptions {
+  contract: Address;
+  to: Address;
+  tokenId: bigint;
+  amount?: bigint; // ERC-1155 only, default 1
+  data?: Hex;
+  from?: Address; // Defaults to the user's account, set it when transferring as an approved operator
+  standard?: NftStandard;
+}
+
+export interface NftApprovalRequest extends ModuleWriteOptions {
+  contract: Address;
+  operator: Address;
+  approved: boolean;
+}
+
 // Wallet Deep Links and Metadata
 export interface WalletMetadata {
   name: string;
@@ -352,6 +790,7 @@ export interface TimeoutConfig {
   contractCall: number; // Contract call timeout in milliseconds
   contractRead: number; // Contract read timeout in milliseconds
   gasEstimation: number; // Gas estimation timeout in milliseconds
+  receipt: number; // Receipt confirmation timeout in milliseconds
   sessionExpiry: number; // Session expiry timeout in milliseconds
   cleanup: number; // Cleanup interval in milliseconds
 } 
\ No newline at end of file
@@ -0,0 +1,122 @@
+import { Address, Hex, PublicClient } from 'viem';
+import { FeePreset, FeeSpeed, FeeSuggestion, GasConfig } from '../types';
+
+// Default fee presets
+const DEFAULT_PRESETS: Record<FeeSpeed, FeePreset> = {
+  slow: { rewardPercentile: 10, baseFeeMultiplier: 1.1 },
+  normal: { rewardPercentile: 50, baseFeeMultiplier: 1.25 },
+  fast: { rewardPercentile: 90, baseFeeMultiplier: 1.5 }
+};
+
+const DEFAULT_GAS_LIMIT_BUFFER = 20; // percent
+const DEFAULT_FEE_HISTORY_BLOCKS = 10;
+
+// Transaction fields the estimator reads and fills
+export interface GasFillableTransaction {
+  to?: Address;
+  data?: Hex;
+  value?: bigint;
+  gas?: bigint;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+// Fee and gas estimation against a chain's public RPC
+export class FeeEstimator {
+  private config: GasConfig;
+
+  constructor(config: GasConfig = {}) {
+    this.config = config;
+  }
+
+  // Suggest fees from eth_feeHistory, falling back to eth_gasPrice on legacy chains
+  async suggestFees(client: PublicClient, speed: FeeSpeed = this.config.speed || 'normal'): Promise<FeeSuggestion> {
+    const preset = this.getPreset(speed);
+    const history = await client.getFeeHistory({
+      blockCount: this.config.feeHistoryBlocks || DEFAULT_FEE_HISTORY_BLOCKS,
+      rewardPercentiles: [preset.rewardPercentile],
+      blockTag: 'latest'
+    });
+
+    // The last entry is the base fee of the next block
+    const baseFeePerGas = history.baseFeePerGas[history.baseFeePerGas.length - 1] || 0n;
+    if (baseFeePerGas === 0n) {
+      const gasPrice = await client.getGasPrice();
+      return { speed, gasPrice: this.scale(gasPrice, preset.baseFeeMultiplier) };
+    }
+
+    const rewards = (history.reward || [])
+      .map(blockRewards => blockRewards[0] || 0n)
+      .filter(reward => reward > 0n)
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+
+    const maxPriorityFeePerGas = rewards.length > 0
+      ? rewards[Math.floor(rewards.length / 2)]!
+      : await client.estimateMaxPriorityFeePerGas();
+
+    return {
+      speed,
+      baseFeePerGas,
+      maxPriorityFeePerGas,
+      maxFeePerGas: this.scale(baseFeePerGas, preset.baseFeeMultiplier) + maxPriorityFeePerGas
+    };
+  }
+
+  // Estimate the gas limit with eth_estimateGas and add the configured buffer
+  async estimateGasLimit(client: PublicClient, from: Address, transaction: GasFillableTransaction): Promise<bigint> {
+    const gas = await client.estimateGas({
+      account: from,
+      ...(transaction.to ? { to: transaction.to } : {}),
+      ...(transaction.data ? { data: transaction.data } : {}),
+      ...(transaction.value !== undefined ? { value: transaction.value } : {})
+    });
+
+    const buffer = this.config.gasLimitBuffer ?? DEFAULT_GAS_LIMIT_BUFFER;
+    return gas + (gas * BigInt(Math.round(buffer * 100))) / 10000n;
+  }
+
+  // Fill whatever gas and fee fields the caller left out
+  async fillTransaction<T extends GasFillableTransaction>(
+    client: PublicClient,
+    from: Address,
+    transaction: T,
+    speed?: FeeSpeed
+  ): Promise<T> {
+    const filled = { ...transaction };
+
+    if (filled.gas === undefined) {
+      filled.gas = await this.estimateGasLimit(client, from, filled);
+    }
+
+    // Caller-supplied pricing is left untouched
+    const hasPricing = filled.gasPrice !== undefined
+      || filled.maxFeePerGas !== undefined
+      || filled.maxPriorityFeePerGas !== undefined;
+
+    if (!hasPricing) {
+      const fees = await this.suggestFees(client, speed);
+      if (fees.gasPrice !== undefined) {
+        filled.gasPrice = fees.gasPrice;
+      } else if (fees.maxFeePerGas !== undefined && fees.maxPriorityFeePerGas !== undefined) {
+        filled.maxFeePerGas = fees.maxFeePerGas;
+        filled.maxPriorityFeePerGas = fees.maxPriorityFeePerGas;
+      }
+    }
+
+    return filled;
+  }
+
+  // Check whether sends should be prepared without an explicit speed
+  isAutoFillEnabled(): boolean {
+    return this.config.autoFill === true;
+  }
+
+  private getPreset(speed: FeeSpeed): FeePreset {
+    return { ...DEFAULT_PRESETS[speed], ...this.config.presets?.[speed] };
+  }
+
+  private scale(value: bigint, multiplier: number): bigint {
+    return (value * BigInt(Math.round(multiplier * 100))) / 100n;
+  }
+}
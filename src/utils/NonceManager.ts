@@ -0,0 +1,69 @@
+// Nonce manager for sending several transactions from the same address back to back.
+// Submissions for one key run one at a time, each getting the next sequential nonce.
+export class NonceManager {
+  private nonces: Map<string, number> = new Map();
+  private queues: Map<string, Promise<unknown>> = new Map();
+
+  // Build the key used to track an address on a chain
+  static key(chainId: number, address: string): string {
+    return `${chainId}:${address.toLowerCase()}`;
+  }
+
+  // Queue a submission and hand it the next nonce once earlier submissions settle
+  run<T>(
+    key: string,
+    getPendingNonce: () => Promise<number>,
+    submit: (nonce: number) => Promise<T>
+  ): Promise<T> {
+    const previous = this.queues.get(key) || Promise.resolve();
+
+    const task = previous
+      .catch(() => undefined)
+      .then(async () => {
+        // The chain wins when it is ahead, e.g. after a transaction sent from another app
+        const pendingNonce = await getPendingNonce();
+        const localNonce = this.nonces.get(key);
+        const nonce = localNonce !== undefined && localNonce > pendingNonce ? localNonce : pendingNonce;
+
+        try {
+          const result = await submit(nonce);
+          this.nonces.set(key, nonce + 1);
+          return result;
+        } catch (error) {
+          // Rejected or timed out, the nonce may or may not be used: resync from the chain next time
+          this.reset(key);
+          throw error;
+        }
+      });
+
+    this.queues.set(key, task);
+    task
+      .finally(() => {
+        if (this.queues.get(key) === task) {
+          this.queues.delete(key);
+        }
+      })
+      .catch(() => undefined);
+
+    return task;
+  }
+
+  // Get the nonce the next submission will use if the chain is not ahead
+  getNextNonce(key: string): number | undefined {
+    return this.nonces.get(key);
+  }
+
+  // Check whether submissions are queued or in flight for a key
+  isBusy(key: string): boolean {
+    return this.queues.has(key);
+  }
+
+  // Forget the tracked nonce for a key, or for every key
+  reset(key?: string): void {
+    if (key) {
+      this.nonces.delete(key);
+    } else {
+      this.nonces.clear();
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  Address,
+  Hex,
+  PublicClient,
+  hashMessage,
+  hashTypedData,
+  isAddressEqual,
+  isErc6492Signature,
+  recoverAddress
+} from 'viem';
+import { verifyHash } from 'viem/actions';
+import { SignatureKind } from '../types';
+
+// bytes4(keccak256("isValidSignature(bytes32,bytes)"))
+const ERC1271_MAGIC_VALUE = '0x1626ba7e';
+
+const ERC1271_ABI = [
+  {
+    type: 'function',
+    name: 'isValidSignature',
+    stateMutability: 'view',
+    inputs: [
+      { name: 'hash', type: 'bytes32' },
+      { name: 'signature', type: 'bytes' }
+    ],
+    outputs: [{ name: 'magicValue', type: 'bytes4' }]
+  }
+] as const;
+
+// Typed data fields needed to compute the EIP-712 hash
+export interface TypedDataPayload {
+  domain: any;
+  types: any;
+  primaryType: string;
+  message: any;
+}
+
+// Signature verification for EOAs (ecrecover), deployed smart accounts (ERC-1271)
+// and counterfactual smart accounts (ERC-6492)
+export class SignatureVerifier {
+  // Verify an EIP-191 personal message signature
+  async verifyMessage(
+    client: PublicClient,
+    address: Address,
+    message: string,
+    signature: Hex
+  ): Promise<{ valid: boolean; kind: SignatureKind }> {
+    return this.verifyHash(client, address, hashMessage(message), signature);
+  }
+
+  // Verify an EIP-712 typed data signature
+  async verifyTypedData(
+    client: PublicClient,
+    address: Address,
+    typedData: TypedDataPayload,
+    signature: Hex
+  ): Promise<{ valid: boolean; kind: SignatureKind }> {
+    return this.verifyHash(client, address, hashTypedData(typedData), signature);
+  }
+
+  // Verify a signature over a digest, picking the scheme from the signature and the signer's code
+  async verifyHash(
+    client: PublicClient,
+    address: Address,
+    hash: Hex,
+    signature: Hex
+  ): Promise<{ valid: boolean; kind: SignatureKind }> {
+    // Wrapped signatures of accounts that may not be deployed yet, viem simulates the deployment
+    if (isErc6492Signature(signature)) {
+      const valid = await verifyHash(client, { address, hash, signature });
+      return { valid, kind: 'erc6492' };
+    }
+
+    const code = await client.getCode({ address });
+    if (code && code !== '0x') {
+      return { valid: await this.isValidErc1271Signature(client, address, hash, signature), kind: 'erc1271' };
+    }
+
+    try {
+      const signer = await recoverAddress({ hash, signature });
+      return { valid: isAddressEqual(signer, address), kind: 'eoa' };
+    } catch {
+      // Malformed signatures cannot be recovered
+      return { valid: false, kind: 'eoa' };
+    }
+  }
+
+  private async isValidErc1271Signature(
+    client: PublicClient,
+    address: Address,
+    hash: Hex,
+    signature: Hex
+  ): Promise<boolean> {
+    try {
+      const magicValue = await client.readContract({
+        address,
+        abi: ERC1271_ABI,
+        functionName: 'isValidSignature',
+        args: [hash, signature]
+      });
+      return magicValue.toLowerCase() === ERC1271_MAGIC_VALUE;
+    } catch {
+      // Accounts revert on invalid signatures instead of returning another value
+      return false;
+    }
+  }
+}
@@ -0,0 +1,90 @@
+// CAIP-2 identifiers for Solana clusters (genesis hash prefixes)
+export const SOLANA_CHAINS = {
+  mainnet: 'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp',
+  devnet: 'solana:EtWTRABZaYq6iMfeYKouRu166VU2xqa1',
+  testnet: 'solana:4uhcVJyU9pJkvQyS88uRDiswHXSCkY3z'
+} as const;
+
+// Default WalletConnect methods for the solana namespace
+export const SOLANA_METHODS = [
+  'solana_signMessage',
+  'solana_signTransaction',
+  'solana_signAndSendTransaction'
+];
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// Encoding helpers for Solana payloads
+export const SolanaUtils = {
+  // Encode bytes as base58 (Bitcoin alphabet, as used by Solana)
+  encodeBase58: (bytes: Uint8Array): string => {
+    // Little-endian base58 digits of the input
+    const digits: number[] = [];
+
+    for (const byte of bytes) {
+      let carry = byte;
+      for (let i = 0; i < digits.length; i++) {
+        carry += digits[i]! * 256;
+        digits[i] = carry % 58;
+        carry = Math.floor(carry / 58);
+      }
+      while (carry > 0) {
+        digits.push(carry % 58);
+        carry = Math.floor(carry / 58);
+      }
+    }
+
+    // Leading zero bytes are encoded as '1'
+    let result = '';
+    for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+      result += '1';
+    }
+    for (let i = digits.length - 1; i >= 0; i--) {
+      result += BASE58_ALPHABET[digits[i]!];
+    }
+
+    return result;
+  },
+
+  // Decode a base58 string into bytes
+  decodeBase58: (value: string): Uint8Array => {
+    // Little-endian bytes of the decoded value
+    const bytes: number[] = [];
+
+    for (const char of value) {
+      let carry = BASE58_ALPHABET.indexOf(char);
+      if (carry < 0) {
+        throw new Error(`Invalid base58 character '${char}'`);
+      }
+
+      for (let i = 0; i < bytes.length; i++) {
+        carry += bytes[i]! * 58;
+        bytes[i] = carry & 0xff;
+        carry >>= 8;
+      }
+      while (carry > 0) {
+        bytes.push(carry & 0xff);
+        carry >>= 8;
+      }
+    }
+
+    for (let i = 0; i < value.length && value[i] === '1'; i++) {
+      bytes.push(0);
+    }
+
+    return Uint8Array.from(bytes.reverse());
+  },
+
+  // Normalize a serialized transaction to the base64 form WalletConnect wallets expect
+  toBase64Transaction: (transaction: string, encoding: 'base58' | 'base64' = 'base64'): string => {
+    if (encoding === 'base64') {
+      return transaction;
+    }
+    return Buffer.from(SolanaUtils.decodeBase58(transaction)).toString('base64');
+  },
+
+  // Check whether a CAIP-2 chain id belongs to the solana namespace
+  isSolanaChain: (chain: string): boolean => {
+    return chain.startsWith('solana:');
+  }
+};
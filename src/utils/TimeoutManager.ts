@@ -8,6 +8,7 @@ const DEFAULT_TIMEOUTS: TimeoutConfig = {
   contractCall: 60000, // 1 minute
   contractRead: 15000, // 15 seconds
   gasEstimation: 15000, // 15 seconds
+  receipt: 5 * 60 * 1000, // 5 minutes
   sessionExpiry: 24 * 60 * 60 * 1000, // 24 hours
   cleanup: 5 * 60 * 1000 // 5 minutes
 };
@@ -183,7 +184,8 @@ export class TimeoutManager {
       'signing': this.timeouts.signing,
       'contractCall': this.timeouts.contractCall,
       'contractRead': this.timeouts.contractRead,
-      'gasEstimation': this.timeouts.gasEstimation
+      'gasEstimation': this.timeouts.gasEstimation,
+      'receipt': this.timeouts.receipt
     };
 
     const timeout = timeouts[operation] || this.timeouts.connection;
@@ -0,0 +1,258 @@
+import { getTypesForEIP712Domain, isAddress, isHex, serializeTypedData, size } from 'viem';
+import { WalletConnectSDKError, ErrorCodes } from '../types';
+
+// Field definition inside an EIP-712 struct type
+export interface TypedDataField {
+  name: string;
+  type: string;
+}
+
+// Typed data after validation: EIP712Domain declared, integers as bigint
+export interface NormalizedTypedData {
+  domain: Record<string, unknown>;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+// Fields EIP-712 allows in a domain, with their types
+const DOMAIN_FIELDS: Record<string, string> = {
+  name: 'string',
+  version: 'string',
+  chainId: 'uint256',
+  verifyingContract: 'address',
+  salt: 'bytes32'
+};
+
+const ARRAY_TYPE = /^(.+)\[(\d*)\]$/;
+const INTEGER_TYPE = /^(u?)int(\d*)$/;
+const FIXED_BYTES_TYPE = /^bytes(\d+)$/;
+
+const invalid = (field: string, reason: string): WalletConnectSDKError =>
+  new WalletConnectSDKError(
+    `Invalid typed data at ${field}: ${reason}`,
+    ErrorCodes.INVALID_REQUEST,
+    { field }
+  );
+
+// EIP-712 payload validation and serialization
+export const TypedDataUtils = {
+  /**
+   * Validate typed data against its declared types and normalize it for signing.
+   * Throws an INVALID_REQUEST WalletConnectSDKError whose details name the offending field.
+   */
+  normalize: (typedData: { domain: any; types: any; primaryType: string; value: any }): NormalizedTypedData => {
+    const { primaryType } = typedData;
+    const domain = typedData.domain ?? {};
+
+    if (!isRecord(typedData.types)) {
+      throw invalid('types', 'expected an object of struct definitions');
+    }
+    if (!isRecord(domain)) {
+      throw invalid('domain', 'expected an object');
+    }
+
+    const types: Record<string, TypedDataField[]> = {};
+    for (const [typeName, fields] of Object.entries(typedData.types)) {
+      if (!Array.isArray(fields)) {
+        throw invalid(`types.${typeName}`, 'expected an array of fields');
+      }
+      fields.forEach((field, index) => {
+        if (!isRecord(field) || typeof field['name'] !== 'string' || typeof field['type'] !== 'string') {
+          throw invalid(`types.${typeName}[${index}]`, 'expected { name, type }');
+        }
+      });
+      types[typeName] = fields as TypedDataField[];
+    }
+
+    // Wallets hash the domain with the declared EIP712Domain, so infer it from the fields present
+    for (const key of Object.keys(domain)) {
+      if (!(key in DOMAIN_FIELDS)) {
+        throw invalid(`domain.${key}`, 'not an EIP-712 domain field');
+      }
+    }
+    if (!types['EIP712Domain']) {
+      types['EIP712Domain'] = getTypesForEIP712Domain({ domain: domain as any }) as TypedDataField[];
+    }
+
+    for (const [typeName, fields] of Object.entries(types)) {
+      for (const field of fields) {
+        checkType(types, field.type, `types.${typeName}.${field.name}`);
+      }
+    }
+
+    if (typeof primaryType !== 'string' || !types[primaryType]) {
+      throw invalid('primaryType', `type '${primaryType}' is not declared in types`);
+    }
+
+    // Wallets compare the domain chainId with the active chain, keep it a plain number
+    const normalizedDomain = normalizeStruct(types, 'EIP712Domain', domain, 'domain');
+    if (typeof normalizedDomain['chainId'] === 'bigint') {
+      normalizedDomain['chainId'] = Number(normalizedDomain['chainId']);
+    }
+
+    return {
+      domain: normalizedDomain,
+      types,
+      primaryType,
+      message: primaryType === 'EIP712Domain'
+        ? {}
+        : normalizeStruct(types, primaryType, typedData.value, 'value')
+    };
+  },
+
+  // Serialize normalized typed data into the JSON string eth_signTypedData_v4 expects
+  serialize: (typedData: NormalizedTypedData): string => {
+    return serializeTypedData(typedData as any);
+  }
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Make sure a declared type is a valid EIP-712 type or references a declared struct
+function checkType(types: Record<string, TypedDataField[]>, type: string, field: string): void {
+  const array = ARRAY_TYPE.exec(type);
+  if (array) {
+    checkType(types, array[1]!, field);
+    return;
+  }
+
+  if (type === 'address' || type === 'bool' || type === 'string' || type === 'bytes' || types[type]) {
+    return;
+  }
+
+  const integer = INTEGER_TYPE.exec(type);
+  if (integer) {
+    const bits = integer[2] ? Number(integer[2]) : 256;
+    if (bits < 8 || bits > 256 || bits % 8 !== 0) {
+      throw invalid(field, `invalid integer type '${type}'`);
+    }
+    return;
+  }
+
+  const bytes = FIXED_BYTES_TYPE.exec(type);
+  if (bytes) {
+    const length = Number(bytes[1]);
+    if (length < 1 || length > 32) {
+      throw invalid(field, `invalid bytes type '${type}'`);
+    }
+    return;
+  }
+
+  throw invalid(field, `unknown type '${type}'`);
+}
+
+function normalizeStruct(
+  types: Record<string, TypedDataField[]>,
+  typeName: string,
+  value: unknown,
+  field: string
+): Record<string, unknown> {
+  if (!isRecord(value)) {
+    throw invalid(field, `expected an object of type ${typeName}`);
+  }
+
+  const fields = types[typeName]!;
+  for (const key of Object.keys(value)) {
+    if (!fields.some(declared => declared.name === key)) {
+      throw invalid(`${field}.${key}`, `not declared in ${typeName}`);
+    }
+  }
+
+  const normalized: Record<string, unknown> = {};
+  for (const declared of fields) {
+    if (value[declared.name] === undefined) {
+      throw invalid(`${field}.${declared.name}`, `missing ${declared.type} value`);
+    }
+    normalized[declared.name] = normalizeValue(types, declared.type, value[declared.name], `${field}.${declared.name}`);
+  }
+  return normalized;
+}
+
+function normalizeValue(
+  types: Record<string, TypedDataField[]>,
+  type: string,
+  value: unknown,
+  field: string
+): unknown {
+  const array = ARRAY_TYPE.exec(type);
+  if (array) {
+    if (!Array.isArray(value)) {
+      throw invalid(field, `expected an array of ${array[1]}`);
+    }
+    if (array[2] && value.length !== Number(array[2])) {
+      throw invalid(field, `expected ${array[2]} items, got ${value.length}`);
+    }
+    return value.map((item, index) => normalizeValue(types, array[1]!, item, `${field}[${index}]`));
+  }
+
+  if (types[type]) {
+    return normalizeStruct(types, type, value, field);
+  }
+
+  if (type === 'address') {
+    if (typeof value !== 'string' || !isAddress(value, { strict: false })) {
+      throw invalid(field, 'expected an address');
+    }
+    return value;
+  }
+
+  if (type === 'bool') {
+    if (typeof value !== 'boolean') {
+      throw invalid(field, 'expected a boolean');
+    }
+    return value;
+  }
+
+  if (type === 'string') {
+    if (typeof value !== 'string') {
+      throw invalid(field, 'expected a string');
+    }
+    return value;
+  }
+
+  if (type === 'bytes') {
+    if (typeof value !== 'string' || !isHex(value)) {
+      throw invalid(field, 'expected a hex string');
+    }
+    return value;
+  }
+
+  const bytes = FIXED_BYTES_TYPE.exec(type);
+  if (bytes) {
+    if (typeof value !== 'string' || !isHex(value) || size(value) !== Number(bytes[1])) {
+      throw invalid(field, `expected ${bytes[1]} bytes of hex`);
+    }
+    return value;
+  }
+
+  const integer = INTEGER_TYPE.exec(type)!;
+  return normalizeInteger(value, integer[1] !== 'u', integer[2] ? Number(integer[2]) : 256, field);
+}
+
+// Accept numbers, bigints and decimal or hex strings, return a range-checked bigint
+function normalizeInteger(value: unknown, signed: boolean, bits: number, field: string): bigint {
+  let parsed: bigint;
+  try {
+    if (typeof value === 'bigint') {
+      parsed = value;
+    } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+      parsed = BigInt(value);
+    } else if (typeof value === 'string' && /^(-?\d+|0x[0-9a-fA-F]+)$/.test(value)) {
+      parsed = BigInt(value);
+    } else {
+      throw new Error();
+    }
+  } catch {
+    throw invalid(field, `expected an integer, got ${typeof value === 'string' ? `'${value}'` : typeof value}`);
+  }
+
+  const min = signed ? -(1n << BigInt(bits - 1)) : 0n;
+  const max = signed ? (1n << BigInt(bits - 1)) - 1n : (1n << BigInt(bits)) - 1n;
+  if (parsed < min || parsed > max) {
+    throw invalid(field, `${parsed} is out of range for ${signed ? 'int' : 'uint'}${bits}`);
+  }
+  return parsed;
+}
@@ -16,16 +16,20 @@ export class WalletRegistry {
         web: 'https://metamask.io'
       },
       chains: ['eip155:1', 'eip155:137', 'eip155:56', 'eip155:42161'],
-      features: ['connect', 'disconnect', 'sign', 'send', 'switch'],
+      features: ['connect', 'disconnect', 'sign', 'send', 'switch', 'atomic-batch'],
       supportedMethods: [
         'eth_sendTransaction',
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId',
         'wallet_switchEthereumChain',
-        'wallet_addEthereumChain'
+        'wallet_addEthereumChain',
+        'wallet_getCapabilities',
+        'wallet_sendCalls',
+        'wallet_getCallsStatus'
       ],
       supportedEvents: ['chainChanged', 'accountsChanged', 'connect', 'disconnect']
     }],
@@ -49,6 +53,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -74,6 +79,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -93,16 +99,20 @@ export class WalletRegistry {
         web: 'https://wallet.coinbase.com'
       },
       chains: ['eip155:1', 'eip155:137', 'eip155:56', 'eip155:42161'],
-      features: ['connect', 'disconnect', 'sign', 'send', 'switch'],
+      features: ['connect', 'disconnect', 'sign', 'send', 'switch', 'atomic-batch'],
       supportedMethods: [
         'eth_sendTransaction',
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId',
         'wallet_switchEthereumChain',
-        'wallet_addEthereumChain'
+        'wallet_addEthereumChain',
+        'wallet_getCapabilities',
+        'wallet_sendCalls',
+        'wallet_getCallsStatus'
       ],
       supportedEvents: ['chainChanged', 'accountsChanged', 'connect', 'disconnect']
     }],
@@ -126,6 +136,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -151,7 +162,10 @@ export class WalletRegistry {
         'signMessage',
         'signAllTransactions',
         'connect',
-        'disconnect'
+        'disconnect',
+        'solana_signMessage',
+        'solana_signTransaction',
+        'solana_signAndSendTransaction'
       ],
       supportedEvents: ['connect', 'disconnect', 'accountChanged']
     }],
@@ -175,6 +189,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -200,6 +215,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -225,6 +241,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -250,6 +267,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -275,6 +293,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -300,6 +319,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -325,6 +345,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -350,6 +371,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -375,6 +397,7 @@ export class WalletRegistry {
         'eth_sign',
         'personal_sign',
         'eth_signTypedData',
+        'eth_signTypedData_v4',
         'eth_accounts',
         'eth_chainId'
       ],
@@ -392,6 +415,20 @@ export class WalletRegistry {
     return this.wallets.get(name.toLowerCase());
   }
 
+  // Find a registered wallet from the name a wallet reports in its peer metadata, e.g. "MetaMask Wallet"
+  static findWallet(peerName: string): WalletMetadata | undefined {
+    const normalized = peerName.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const exact = this.getWallet(normalized);
+    if (exact) {
+      return exact;
+    }
+
+    return Array.from(this.wallets.entries())
+      .find(([key, wallet]) =>
+        normalized.startsWith(key) || normalized.startsWith(wallet.name.toLowerCase().replace(/[^a-z0-9]/g, ''))
+      )?.[1];
+  }
+
   // Get wallets by chain
   static getWalletsByChain(chain: string): WalletMetadata[] {
     return Array.from(this.wallets.values()).filter(wallet => 
@@ -510,6 +547,12 @@ export class WalletRegistry {
     return wallet ? wallet.supportedMethods.includes(method) : false;
   }
 
+  // Check if wallet can execute EIP-5792 call batches atomically, accepts registry keys and peer names
+  static supportsAtomicBatch(walletName: string): boolean {
+    const wallet = this.findWallet(walletName);
+    return wallet ? wallet.features.includes('atomic-batch') && wallet.supportedMethods.includes('wallet_sendCalls') : false;
+  }
+
   // Check if wallet supports event
   static supportsEvent(walletName: string, event: string): boolean {
     const wallet = this.getWallet(walletName);
@@ -0,0 +1,38 @@
+import { DatabaseFactory } from '../../src/storage/DatabaseFactory';
+import { MemoryDatabase } from '../../src/storage/MemoryDatabase';
+import { PostgreSQLDatabase } from '../../src/storage/PostgreSQLDatabase';
+import { SQLiteDatabase } from '../../src/storage/SQLiteDatabase';
+import { DatabaseConfig } from '../../src/types/database';
+
+describe('DatabaseFactory', () => {
+  it('defaults to the in-memory database', () => {
+    expect(DatabaseFactory.create()).toBeInstanceOf(MemoryDatabase);
+    expect(DatabaseFactory.isPersistent()).toBe(false);
+  });
+
+  it('builds the adapter selected by type', () => {
+    expect(DatabaseFactory.create({ type: 'sqlite', databasePath: ':memory:' })).toBeInstanceOf(SQLiteDatabase);
+    expect(DatabaseFactory.create({ type: 'postgresql', connectionString: 'postgresql://localhost/wc' }))
+      .toBeInstanceOf(PostgreSQLDatabase);
+    expect(DatabaseFactory.isPersistent({ type: 'sqlite', databasePath: ':memory:' })).toBe(true);
+  });
+
+  it('accepts the older untyped configuration shape', async () => {
+    const legacy: DatabaseConfig = { type: 'sqlite', connectionString: ':memory:', options: { verbose: false } };
+    const database = DatabaseFactory.create(legacy);
+    expect(database).toBeInstanceOf(SQLiteDatabase);
+
+    await database.connect();
+    expect(database.isConnected()).toBe(true);
+    await database.disconnect();
+  });
+
+  it('rejects configurations missing their connection details', () => {
+    expect(() => DatabaseFactory.create({ type: 'mysql' })).toThrow("Database type 'mysql' requires connectionString");
+  });
+
+  it('rejects unknown types', () => {
+    expect(() => DatabaseFactory.create({ type: 'redis' } as unknown as DatabaseConfig))
+      .toThrow("Unknown database type 'redis'");
+  });
+});
@@ -0,0 +1,92 @@
+import { PublicClient } from 'viem';
+import { FeeEstimator } from '../../src/utils/FeeEstimator';
+
+const from = '0x1111111111111111111111111111111111111111';
+const to = '0x2222222222222222222222222222222222222222';
+
+function mockClient(overrides: Record<string, jest.Mock> = {}) {
+  const client = {
+    getFeeHistory: jest.fn().mockResolvedValue({
+      baseFeePerGas: [100n, 200n],
+      reward: [[3n], [1n], [0n], [2n]]
+    }),
+    getGasPrice: jest.fn().mockResolvedValue(100n),
+    estimateMaxPriorityFeePerGas: jest.fn().mockResolvedValue(7n),
+    estimateGas: jest.fn().mockResolvedValue(1000n),
+    ...overrides
+  };
+  return { client, publicClient: client as unknown as PublicClient };
+}
+
+describe('FeeEstimator', () => {
+  it('suggests EIP-1559 fees from the next base fee and the median reward', async () => {
+    const { client, publicClient } = mockClient();
+
+    const fees = await new FeeEstimator().suggestFees(publicClient);
+
+    expect(client.getFeeHistory).toHaveBeenCalledWith({
+      blockCount: 10,
+      rewardPercentiles: [50],
+      blockTag: 'latest'
+    });
+    expect(fees).toEqual({
+      speed: 'normal',
+      baseFeePerGas: 200n,
+      maxPriorityFeePerGas: 2n,
+      maxFeePerGas: 252n
+    });
+  });
+
+  it('applies the preset of the requested speed and configured overrides', async () => {
+    const { client, publicClient } = mockClient();
+    const estimator = new FeeEstimator({ presets: { fast: { rewardPercentile: 95, baseFeeMultiplier: 2 } } });
+
+    const fees = await estimator.suggestFees(publicClient, 'fast');
+
+    expect(client.getFeeHistory).toHaveBeenCalledWith(expect.objectContaining({ rewardPercentiles: [95] }));
+    expect(fees.maxFeePerGas).toBe(402n);
+  });
+
+  it('asks the node for a priority fee when recent blocks paid no rewards', async () => {
+    const { client, publicClient } = mockClient({
+      getFeeHistory: jest.fn().mockResolvedValue({ baseFeePerGas: [200n], reward: [[0n]] })
+    });
+
+    const fees = await new FeeEstimator().suggestFees(publicClient);
+
+    expect(client.estimateMaxPriorityFeePerGas).toHaveBeenCalled();
+    expect(fees.maxPriorityFeePerGas).toBe(7n);
+    expect(fees.maxFeePerGas).toBe(257n);
+  });
+
+  it('falls back to eth_gasPrice on chains without a base fee', async () => {
+    const { publicClient } = mockClient({
+      getFeeHistory: jest.fn().mockResolvedValue({ baseFeePerGas: [0n], reward: [] })
+    });
+
+    const fees = await new FeeEstimator().suggestFees(publicClient, 'slow');
+
+    expect(fees).toEqual({ speed: 'slow', gasPrice: 110n });
+  });
+
+  it('adds the gas limit buffer to the estimate', async () => {
+    const { client, publicClient } = mockClient();
+
+    await expect(new FeeEstimator().estimateGasLimit(publicClient, from, { to })).resolves.toBe(1200n);
+    await expect(new FeeEstimator({ gasLimitBuffer: 50 }).estimateGasLimit(publicClient, from, { to })).resolves.toBe(1500n);
+    expect(client.estimateGas).toHaveBeenCalledWith({ account: from, to });
+  });
+
+  it('fills only the fields the caller left out', async () => {
+    const { client, publicClient } = mockClient();
+    const estimator = new FeeEstimator();
+
+    const filled = await estimator.fillTransaction(publicClient, from, { to, gasPrice: 5n });
+    expect(filled).toEqual({ to, gasPrice: 5n, gas: 1200n });
+    expect(client.getFeeHistory).not.toHaveBeenCalled();
+
+    const priced = await estimator.fillTransaction(publicClient, from, { to, gas: 21000n });
+    expect(priced).toEqual({ to, gas: 21000n, maxFeePerGas: 252n, maxPriorityFeePerGas: 2n });
+    expect(client.estimateGas).toHaveBeenCalledTimes(1);
+  });
+});
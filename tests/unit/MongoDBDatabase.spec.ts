@@ -0,0 +1,49 @@
+import { MongoMemoryServer } from 'mongodb-memory-server';
+import { Connection, createConnection } from 'mongoose';
+import { MongoDBDatabase } from '../../src/storage/MongoDBDatabase';
+import { describeAdapterRoundTrip } from './helpers/databaseAdapter';
+
+const databaseName = 'walletconnect_test';
+
+// Runs against MONGODB_URI when set, otherwise against a mongodb-memory-server instance
+describe('MongoDBDatabase', () => {
+  let server: MongoMemoryServer | undefined;
+  let mongoUri: string;
+  let connection: Connection;
+
+  beforeAll(async () => {
+    if (process.env['MONGODB_URI']) {
+      mongoUri = process.env['MONGODB_URI'];
+    } else {
+      server = await MongoMemoryServer.create();
+      mongoUri = server.getUri();
+    }
+    connection = await createConnection(mongoUri, { dbName: databaseName }).asPromise();
+  }, 120_000);
+
+  afterAll(async () => {
+    await connection?.dropDatabase();
+    await connection?.close();
+    await server?.stop();
+  });
+
+  describeAdapterRoundTrip(async () => {
+    await connection.dropDatabase();
+    const db = new MongoDBDatabase({ connectionString: mongoUri, databaseName });
+    await db.connect();
+    return db;
+  });
+
+  it('counts the pool connections opened by the first connect', async () => {
+    const db = new MongoDBDatabase({ connectionString: mongoUri, databaseName });
+    await db.connect();
+    await db.getAllSessions();
+
+    const health = await db.getHealth();
+    expect(health.pool?.total).toBeGreaterThan(0);
+    expect(health.pool?.idle).toBe(health.pool?.total);
+    expect(health.activeConnections).toBe(0);
+
+    await db.disconnect();
+  });
+});
@@ -0,0 +1,133 @@
+import * as dns from 'dns';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { NftModule } from '../../src/modules/NftModule';
+import { NftConfig, SDKModuleContext } from '../../src/types';
+import { SilentLogger } from '../../src/utils/Logger';
+
+jest.mock('dns', () => {
+  const actual = jest.requireActual('dns');
+  return { ...actual, lookup: jest.fn(actual.lookup) };
+});
+
+const contract = '0x1111111111111111111111111111111111111111';
+
+function moduleFor(tokenUri: string, config: NftConfig = {}): NftModule {
+  const context = {
+    logger: new SilentLogger(),
+    getPublicClient: () => ({ readContract: jest.fn().mockResolvedValue(tokenUri) }),
+    getDefaultChainId: () => 1,
+    getAccount: jest.fn(),
+    callContract: jest.fn()
+  } as unknown as SDKModuleContext;
+  return new NftModule(context, config);
+}
+
+function metadataOf(tokenUri: string, config?: NftConfig) {
+  return moduleFor(tokenUri, config).getNftMetadata({ contract, tokenId: 1n, standard: 'erc721' });
+}
+
+describe('NftModule metadata', () => {
+  let server: Server;
+  let gateway: string;
+  let requests = 0;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      requests++;
+      if (req.url === '/ipfs/small') {
+        res.setHeader('content-type', 'application/json');
+        res.end(JSON.stringify({ name: 'Token #1', image: 'ipfs://image' }));
+      } else if (req.url === '/ipfs/large') {
+        res.end(JSON.stringify({ name: 'x'.repeat(4096) }));
+      } else if (req.url === '/ipfs/redirect') {
+        res.writeHead(302, { location: `http://localhost:${(server.address() as AddressInfo).port}/ipfs/small` });
+        res.end();
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    gateway = `http://127.0.0.1:${(server.address() as AddressInfo).port}/ipfs/`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('loads metadata through the configured gateway', async () => {
+    const token = await metadataOf('ipfs://small', { ipfsGateway: gateway });
+
+    expect(token.error).toBeUndefined();
+    expect(token.metadata).toEqual({ name: 'Token #1', image: 'ipfs://image' });
+    expect(token.imageUrl).toBe(`${gateway}image`);
+  });
+
+  it('decodes data: URIs without a request', async () => {
+    const json = Buffer.from(JSON.stringify({ name: 'On-chain' })).toString('base64');
+    const token = await metadataOf(`data:application/json;base64,${json}`);
+
+    expect(token.metadata).toEqual({ name: 'On-chain' });
+  });
+
+  it.each([
+    'http://127.0.0.1/metadata.json',
+    'http://localhost/metadata.json',
+    'http://169.254.169.254/latest/meta-data',
+    'http://10.0.0.5/metadata.json',
+    'http://[::1]/metadata.json',
+    'http://[::ffff:127.0.0.1]/metadata.json'
+  ])('refuses to fetch %s', async tokenUri => {
+    const token = await metadataOf(tokenUri);
+
+    expect(token.metadata).toBeUndefined();
+    expect(token.error).toMatch(/non-public address/);
+  });
+
+  it('refuses other URL schemes', async () => {
+    const token = await metadataOf('file:///etc/passwd');
+
+    expect(token.error).toBe('Unsupported metadata URL scheme file:');
+  });
+
+  it('checks every redirect target', async () => {
+    const token = await metadataOf('ipfs://redirect', { ipfsGateway: gateway });
+
+    expect(token.metadata).toBeUndefined();
+    expect(token.error).toMatch(/^Metadata host localhost resolves to the non-public address/);
+  });
+
+  it('connects to the address it checked, whatever a second lookup would answer', async () => {
+    // A rebinding DNS server: public for the first lookup, the local server after that
+    const lookup = dns.lookup as unknown as jest.Mock;
+    const actualLookup = jest.requireActual('dns').lookup;
+    let answers = 0;
+    lookup.mockImplementation((hostname: string, options: any, callback: any) => {
+      if (hostname !== 'rebind.test') {
+        return actualLookup(hostname, options, callback);
+      }
+      const address = answers++ === 0 ? '192.0.2.10' : '127.0.0.1';
+      return options.all ? callback(null, [{ address, family: 4 }]) : callback(null, address, 4);
+    });
+    const before = requests;
+
+    try {
+      const port = (server.address() as AddressInfo).port;
+      const token = await metadataOf(`http://rebind.test:${port}/ipfs/small`, { metadataTimeout: 500 });
+
+      expect(token.metadata).toBeUndefined();
+      expect(answers).toBe(1);
+      expect(requests).toBe(before);
+    } finally {
+      lookup.mockImplementation(actualLookup);
+    }
+  });
+
+  it('stops reading documents over the size limit', async () => {
+    const token = await metadataOf('ipfs://large', { ipfsGateway: gateway, maxMetadataSize: 1024 });
+
+    expect(token.metadata).toBeUndefined();
+    expect(token.error).toMatch(/is larger than 1024 bytes$/);
+  });
+});
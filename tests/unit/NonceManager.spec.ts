@@ -0,0 +1,70 @@
+import { NonceManager } from '../../src/utils/NonceManager';
+
+describe('NonceManager', () => {
+  const key = NonceManager.key(1, '0xABCDEF0000000000000000000000000000000001');
+
+  it('builds case-insensitive keys per chain', () => {
+    expect(key).toBe('1:0xabcdef0000000000000000000000000000000001');
+    expect(NonceManager.key(137, '0xabc')).not.toBe(NonceManager.key(1, '0xabc'));
+  });
+
+  it('hands back-to-back submissions sequential nonces', async () => {
+    const manager = new NonceManager();
+    // The node has not seen the earlier submissions yet
+    const getPendingNonce = jest.fn().mockResolvedValue(5);
+    const used: number[] = [];
+
+    await Promise.all([1, 2, 3].map(() =>
+      manager.run(key, getPendingNonce, async nonce => {
+        used.push(nonce);
+        return nonce;
+      })
+    ));
+
+    expect(used).toEqual([5, 6, 7]);
+    expect(manager.getNextNonce(key)).toBe(8);
+    expect(manager.isBusy(key)).toBe(false);
+  });
+
+  it('runs one submission at a time per key', async () => {
+    const manager = new NonceManager();
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const submit = async (nonce: number) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return nonce;
+    };
+
+    const first = manager.run(key, async () => 0, submit);
+    expect(manager.isBusy(key)).toBe(true);
+    await Promise.all([first, manager.run(key, async () => 0, submit)]);
+
+    expect(maxInFlight).toBe(1);
+  });
+
+  it('follows the chain when it is ahead', async () => {
+    const manager = new NonceManager();
+    await manager.run(key, async () => 2, async nonce => nonce);
+
+    const nonce = await manager.run(key, async () => 10, async next => next);
+    expect(nonce).toBe(10);
+  });
+
+  it('resyncs from the chain after a failed submission', async () => {
+    const manager = new NonceManager();
+    await manager.run(key, async () => 4, async nonce => nonce);
+
+    await expect(manager.run(key, async () => 4, async () => {
+      throw new Error('User rejected');
+    })).rejects.toThrow('User rejected');
+    expect(manager.getNextNonce(key)).toBeUndefined();
+
+    // A failure does not block the queue
+    const nonce = await manager.run(key, async () => 4, async next => next);
+    expect(nonce).toBe(4);
+  });
+});
@@ -0,0 +1,59 @@
+import { EventEmitter } from 'events';
+import { newDb } from 'pg-mem';
+import { Pool } from 'pg';
+import { PostgreSQLDatabase } from '../../src/storage/PostgreSQLDatabase';
+import { describeAdapterRoundTrip } from './helpers/databaseAdapter';
+
+function createPool(): Pool {
+  const { Pool: MemPool } = newDb().adapters.createPg();
+  return new MemPool() as Pool;
+}
+
+// pg-mem's pool ignores listeners, a pg Pool is an EventEmitter
+function createEmittingPool(): Pool {
+  const memPool = createPool();
+  return Object.assign(new EventEmitter(), {
+    query: memPool.query.bind(memPool),
+    connect: memPool.connect.bind(memPool),
+    end: memPool.end.bind(memPool)
+  }) as unknown as Pool;
+}
+
+describe('PostgreSQLDatabase', () => {
+  describeAdapterRoundTrip(async () => {
+    const db = new PostgreSQLDatabase({ connectionString: 'postgresql://pg-mem' }, createPool());
+    await db.connect();
+    return db;
+  });
+
+  it('applies each migration once', async () => {
+    const pool = createPool();
+    const db = new PostgreSQLDatabase({ connectionString: 'postgresql://pg-mem' }, pool);
+
+    await db.connect();
+    const version = await db.getSchemaVersion();
+    await db.disconnect();
+    await db.connect();
+
+    expect(await db.getSchemaVersion()).toBe(version);
+    const applied = await pool.query('SELECT version FROM schema_migrations');
+    expect(applied.rows).toHaveLength(version);
+    await db.disconnect();
+  });
+
+  it('keeps a single pool error listener across reconnects', async () => {
+    const pool = createEmittingPool();
+    const db = new PostgreSQLDatabase({ connectionString: 'postgresql://pg-mem' }, pool);
+    const errors: Error[] = [];
+    db.on('error', event => errors.push(event.error!));
+
+    for (let i = 0; i < 3; i++) {
+      await db.connect();
+      expect(pool.listenerCount('error')).toBe(1);
+      await db.disconnect();
+    }
+
+    pool.emit('error', new Error('terminated'));
+    expect(errors.map(error => error.message)).toEqual(['terminated']);
+  });
+});
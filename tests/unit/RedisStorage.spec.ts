@@ -0,0 +1,172 @@
+import { EventEmitter } from 'events';
+import { createClient } from 'redis';
+import { RedisStorage } from '../../src/storage/RedisStorage';
+
+type RedisClient = ReturnType<typeof createClient>;
+type SetOptions = { EX?: number; PX?: number };
+
+// The commands RedisStorage uses, over a Map that several fake clients can share like one Redis database
+function createFakeClient(data: Map<string, { value: string; expiresAt?: number }> = new Map()): RedisClient {
+  const read = (key: string) => {
+    const entry = data.get(key);
+    if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+      data.delete(key);
+      return undefined;
+    }
+    return entry;
+  };
+
+  const commands = {
+    get: async (key: string) => read(key)?.value ?? null,
+    set: async (key: string, value: string, options: SetOptions = {}) => {
+      const ttl = options.EX !== undefined ? options.EX * 1000 : options.PX;
+      data.set(key, { value, ...(ttl !== undefined ? { expiresAt: Date.now() + ttl } : {}) });
+      return 'OK';
+    },
+    del: async (keys: string | string[]) =>
+      [keys].flat().filter(key => read(key) !== undefined && data.delete(key)).length,
+    pTTL: async (key: string) => {
+      const entry = read(key);
+      if (!entry) {
+        return -2;
+      }
+      return entry.expiresAt !== undefined ? entry.expiresAt - Date.now() : -1;
+    },
+    strLen: async (key: string) => read(key)?.value.length ?? 0
+  };
+
+  // SCAN's MATCH is a glob, with backslash escapes
+  const globToRegExp = (glob: string) => new RegExp(`^${glob.replace(/\\(.)|([*?])|([^\\*?]+)/g, (_, escaped, wildcard, literal) =>
+    wildcard === '*' ? '.*' : wildcard === '?' ? '.' : (escaped ?? literal).replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))}$`);
+
+  return Object.assign(new EventEmitter(), commands, {
+    isOpen: true,
+    isReady: true,
+    mGet: async (keys: string[]) => keys.map(key => read(key)?.value ?? null),
+    exists: async (key: string) => (read(key) ? 1 : 0),
+    multi: () => {
+      const queued: (() => Promise<unknown>)[] = [];
+      const pipeline = {
+        get: (key: string) => { queued.push(() => commands.get(key)); return pipeline; },
+        set: (key: string, value: string, options?: SetOptions) => { queued.push(() => commands.set(key, value, options)); return pipeline; },
+        pTTL: (key: string) => { queued.push(() => commands.pTTL(key)); return pipeline; },
+        strLen: (key: string) => { queued.push(() => commands.strLen(key)); return pipeline; },
+        execAsPipeline: async () => {
+          const replies = [];
+          for (const command of queued) {
+            replies.push(await command());
+          }
+          return replies;
+        }
+      };
+      return pipeline;
+    },
+    scanIterator: async function* ({ MATCH }: { MATCH: string; COUNT?: number }) {
+      const pattern = globToRegExp(MATCH);
+      for (const key of [...data.keys()]) {
+        if (read(key) && pattern.test(key)) {
+          yield key;
+        }
+      }
+    }
+  }) as unknown as RedisClient;
+}
+
+describe('RedisStorage', () => {
+  let data: Map<string, { value: string; expiresAt?: number }>;
+  let storage: RedisStorage;
+
+  beforeEach(async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00.000Z') });
+    data = new Map();
+    storage = new RedisStorage({ connectionString: 'redis://fake' }, createFakeClient(data));
+    await storage.connect();
+  });
+
+  afterEach(async () => {
+    await storage.disconnect();
+    jest.useRealTimers();
+  });
+
+  it('stores JSON values under the default key prefix', async () => {
+    await storage.setItem('session', { topic: 'topic-1' });
+
+    expect(data.get('walletconnect:session')?.value).toBe('{"topic":"topic-1"}');
+    expect(await storage.getItem('session')).toEqual({ topic: 'topic-1' });
+    expect(await storage.hasKey('session')).toBe(true);
+  });
+
+  it('expires items after their ttl in seconds', async () => {
+    await storage.setItem('nonce', 'abc', 60);
+    await storage.setItem('kept', 'value');
+
+    jest.advanceTimersByTime(59_000);
+    expect(await storage.getItem('nonce')).toBe('abc');
+
+    jest.advanceTimersByTime(1_000);
+    expect(await storage.getItem('nonce')).toBeUndefined();
+    expect(await storage.hasKey('nonce')).toBe(false);
+    expect(await storage.getItem('kept')).toBe('value');
+  });
+
+  it('falls back to the configured ttl', async () => {
+    const withTtl = new RedisStorage({ connectionString: 'redis://fake', options: { ttl: 10 } }, createFakeClient(data));
+    await withTtl.connect();
+
+    await withTtl.setItems({ a: 1, b: 2 });
+    jest.advanceTimersByTime(10_000);
+
+    expect(await withTtl.getItems(['a', 'b'])).toEqual({});
+    await withTtl.disconnect();
+  });
+
+  it('keeps storages with different key prefixes apart', async () => {
+    const other = new RedisStorage({ connectionString: 'redis://fake', options: { keyPrefix: 'other:' } }, createFakeClient(data));
+    await other.connect();
+
+    await storage.setItem('shared', 'mine');
+    await other.setItem('shared', 'theirs');
+
+    expect(await storage.getItem('shared')).toBe('mine');
+    expect(await other.getItem('shared')).toBe('theirs');
+    expect(await storage.getKeys()).toEqual(['shared']);
+    await other.disconnect();
+  });
+
+  it('lists keys with SCAN, matching glob characters in the prefix literally', async () => {
+    const globbed = new RedisStorage({ connectionString: 'redis://fake', options: { keyPrefix: 'wc*:' } }, createFakeClient(data));
+    await globbed.connect();
+    data.set('wcx:unrelated', { value: '"x"' });
+
+    await globbed.setItems({ a: 1, b: 2 });
+
+    expect((await globbed.getKeys()).sort()).toEqual(['a', 'b']);
+    expect(await globbed.getEntries()).toEqual(expect.arrayContaining([['a', 1], ['b', 2]]));
+    await globbed.disconnect();
+  });
+
+  it('clears only its own keys', async () => {
+    data.set('app:config', { value: '"untouched"' });
+    await storage.setItems({ a: 1, b: 2 });
+
+    await storage.clear();
+
+    expect(await storage.getKeys()).toEqual([]);
+    expect([...data.keys()]).toEqual(['app:config']);
+  });
+
+  it('restores a backup with the remaining ttl of each key', async () => {
+    await storage.setItem('nonce', 'abc', 60);
+    await storage.setItem('kept', 'value');
+    const backup = await storage.backup();
+
+    await storage.clear();
+    jest.advanceTimersByTime(30_000);
+    await storage.restore(backup);
+
+    expect(await storage.getItem('kept')).toBe('value');
+    expect(await storage.getItem('nonce')).toBe('abc');
+    jest.advanceTimersByTime(30_000);
+    expect(await storage.getItem('nonce')).toBeUndefined();
+  });
+});
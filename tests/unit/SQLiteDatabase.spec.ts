@@ -0,0 +1,10 @@
+import { SQLiteDatabase } from '../../src/storage/SQLiteDatabase';
+import { describeAdapterRoundTrip } from './helpers/databaseAdapter';
+
+describe('SQLiteDatabase', () => {
+  describeAdapterRoundTrip(async () => {
+    const db = new SQLiteDatabase({ databasePath: ':memory:' });
+    await db.connect();
+    return db;
+  });
+});
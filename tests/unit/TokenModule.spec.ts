@@ -0,0 +1,177 @@
+import { Abi, decodeFunctionData, encodeFunctionData, erc20Abi, maxUint256, stringToHex } from 'viem';
+import { TokenModule } from '../../src/modules/TokenModule';
+import { SDKModuleContext } from '../../src/types';
+import { SilentLogger } from '../../src/utils/Logger';
+
+const token = '0x1111111111111111111111111111111111111111';
+const owner = '0x2222222222222222222222222222222222222222';
+const spender = '0x3333333333333333333333333333333333333333';
+
+// Answers ERC-20 reads from `reads`, an Error entry reverts. bytes32 reads (MKR-style name and symbol) use `bytes32`
+function createClient(options: { multicall3?: boolean; reads?: Record<string, unknown>; bytes32?: Record<string, string> } = {}) {
+  const reads: Record<string, unknown> = { decimals: 6, name: 'USD Coin', symbol: 'USDC', balanceOf: 0n, allowance: 0n, ...options.reads };
+  const read = async ({ abi, functionName }: { abi: Abi; functionName: string }) => {
+    const output = abi.find(item => item.type === 'function' && item.name === functionName);
+    if (output?.type === 'function' && output.outputs[0]?.type === 'bytes32') {
+      const text = options.bytes32?.[functionName];
+      if (text === undefined) {
+        throw new Error('execution reverted');
+      }
+      return stringToHex(text, { size: 32 });
+    }
+    const value = reads[functionName];
+    if (value instanceof Error) {
+      throw value;
+    }
+    return value;
+  };
+
+  return {
+    chain: options.multicall3 ? { contracts: { multicall3: { address: '0xcA11bde05977b3631167028862bE2a173976CA11' } } } : {},
+    readContract: jest.fn(read),
+    multicall: jest.fn(async ({ contracts }: { contracts: { abi: Abi; functionName: string }[] }) =>
+      Promise.all(contracts.map(contract => read(contract).then(
+        result => ({ status: 'success', result }),
+        error => ({ status: 'failure', error })
+      )))
+    )
+  };
+}
+
+function moduleFor(client: ReturnType<typeof createClient>) {
+  const callContract = jest.fn().mockResolvedValue({ success: true, status: 'confirmed', hash: '0xhash' });
+  const context = {
+    logger: new SilentLogger(),
+    getPublicClient: () => client,
+    getDefaultChainId: () => 1,
+    getAccount: jest.fn().mockResolvedValue({ address: owner, chainId: 1 }),
+    callContract
+  } as unknown as SDKModuleContext;
+  return { tokens: new TokenModule(context), callContract };
+}
+
+// The calldata a callContract request would send
+function calldataOf(request: any): `0x${string}` {
+  return encodeFunctionData({ abi: request.contract.abi, functionName: request.functionName, args: request.args });
+}
+
+describe('TokenModule', () => {
+  describe('metadata', () => {
+    it('reads decimals, name and symbol in one multicall where the chain has Multicall3', async () => {
+      const client = createClient({ multicall3: true });
+      const { tokens } = moduleFor(client);
+
+      const metadata = await tokens.getTokenMetadata(token);
+
+      expect(metadata).toEqual({ address: token, chainId: 1, name: 'USD Coin', symbol: 'USDC', decimals: 6 });
+      expect(client.multicall).toHaveBeenCalledTimes(1);
+      expect(client.multicall.mock.calls[0]![0].contracts.map(contract => contract.functionName)).toEqual(['decimals', 'name', 'symbol']);
+      expect(client.readContract).not.toHaveBeenCalled();
+    });
+
+    it('falls back to bytes32 name and symbol inside a multicall', async () => {
+      const revert = new Error('execution reverted');
+      const client = createClient({ multicall3: true, reads: { name: revert, symbol: revert }, bytes32: { name: 'Maker', symbol: 'MKR' } });
+      const { tokens } = moduleFor(client);
+
+      expect(await tokens.getTokenMetadata(token)).toMatchObject({ name: 'Maker', symbol: 'MKR', decimals: 6 });
+    });
+
+    it('reads one call at a time without Multicall3, and caches the result', async () => {
+      const client = createClient();
+      const { tokens } = moduleFor(client);
+
+      await tokens.getTokenMetadata(token);
+      await tokens.getTokenMetadata(token);
+
+      expect(client.multicall).not.toHaveBeenCalled();
+      expect(client.readContract).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not cache a failed read', async () => {
+      const client = createClient({ multicall3: true, reads: { decimals: new Error('RPC down') } });
+      const { tokens } = moduleFor(client);
+
+      await expect(tokens.getTokenMetadata(token)).rejects.toThrow('RPC down');
+      await Promise.resolve();
+      expect((tokens as any).metadata.size).toBe(0);
+    });
+  });
+
+  describe('amounts', () => {
+    it('formats a balance with the token decimals', async () => {
+      const { tokens } = moduleFor(createClient({ reads: { balanceOf: 1_234_567n } }));
+
+      expect(await tokens.getTokenBalance({ token, owner })).toEqual({
+        raw: 1_234_567n,
+        formatted: '1.234567',
+        decimals: 6,
+        symbol: 'USDC'
+      });
+    });
+
+    it('parses decimal strings and rejects more decimals than the token has', async () => {
+      const { tokens } = moduleFor(createClient());
+
+      expect(await tokens.parseTokenAmount(token, '1.5')).toBe(1_500_000n);
+      expect(await tokens.parseTokenAmount(token, 42n)).toBe(42n);
+      await expect(tokens.parseTokenAmount(token, '0.0000001')).rejects.toThrow("Invalid USDC amount '0.0000001' (6 decimals)");
+      await expect(tokens.parseTokenAmount(token, '1e6')).rejects.toThrow('Invalid USDC amount');
+    });
+  });
+
+  describe('writes', () => {
+    it('encodes a transfer in base units', async () => {
+      const { tokens, callContract } = moduleFor(createClient());
+
+      await tokens.transfer({ userId: 'user-1', token, to: spender, amount: '2.5' });
+
+      const request = callContract.mock.calls[0]![0];
+      expect(request).toMatchObject({ userId: 'user-1', functionName: 'transfer', args: [spender, 2_500_000n] });
+      expect(request.contract).toMatchObject({ address: token, chainId: 1 });
+      const calldata = calldataOf(request);
+      expect(calldata.slice(0, 10)).toBe('0xa9059cbb');
+      expect(decodeFunctionData({ abi: erc20Abi, data: calldata }).args).toEqual([spender, 2_500_000n]);
+    });
+
+    it('encodes an infinite approval as maxUint256', async () => {
+      const { tokens, callContract } = moduleFor(createClient());
+
+      await tokens.approve({ userId: 'user-1', token, spender, mode: 'infinite' });
+
+      const calldata = calldataOf(callContract.mock.calls[0]![0]);
+      expect(calldata.slice(0, 10)).toBe('0x095ea7b3');
+      expect(decodeFunctionData({ abi: erc20Abi, data: calldata }).args).toEqual([spender, maxUint256]);
+    });
+
+    it('skips an approval that matches the current allowance', async () => {
+      const { tokens, callContract } = moduleFor(createClient({ reads: { allowance: 1_000_000n } }));
+
+      expect(await tokens.approve({ userId: 'user-1', token, spender, amount: '1' })).toEqual({ success: true, status: 'confirmed' });
+      expect(callContract).not.toHaveBeenCalled();
+    });
+
+    it('resets a non-zero allowance to zero first when asked', async () => {
+      const { tokens, callContract } = moduleFor(createClient({ reads: { allowance: 5n } }));
+
+      const response = await tokens.approve({ userId: 'user-1', token, spender, amount: '3', resetToZero: true });
+
+      expect(response.success).toBe(true);
+      expect(callContract.mock.calls.map(([request]) => [request.args[1], request.waitForReceipt])).toEqual([
+        [0n, true],
+        [3_000_000n, undefined]
+      ]);
+    });
+
+    it('resets automatically when the approval simulation reverts, as USDT does', async () => {
+      const { tokens, callContract } = moduleFor(createClient({ reads: { allowance: 5n } }));
+      callContract.mockResolvedValueOnce({ success: false, error: 'reverted', simulation: { success: false } });
+
+      const response = await tokens.approve({ userId: 'user-1', token, spender, amount: '3' });
+
+      expect(response.success).toBe(true);
+      expect(response.reset).toMatchObject({ success: true, status: 'confirmed' });
+      expect(callContract.mock.calls.map(([request]) => request.args[1])).toEqual([3_000_000n, 0n, 3_000_000n]);
+    });
+  });
+});
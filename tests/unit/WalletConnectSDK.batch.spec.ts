@@ -0,0 +1,95 @@
+import { WalletConnectSDK } from '../../src/core/WalletConnectSDK';
+import { UserSession, WalletConnectEvent } from '../../src/types';
+import { SilentLogger } from '../../src/utils/Logger';
+
+const hash = `0x${'ab'.repeat(32)}`;
+
+describe('wallet_sendCalls batch events', () => {
+  let sdk: WalletConnectSDK;
+  let request: jest.Mock;
+  let events: WalletConnectEvent[];
+
+  beforeEach(() => {
+    sdk = new WalletConnectSDK({ projectId: 'test-project', logger: new SilentLogger() });
+    request = jest.fn();
+    events = [];
+    sdk.on('transaction_confirmed', event => events.push(event));
+    sdk.on('transaction_failed', event => events.push(event));
+
+    const now = new Date();
+    const session: UserSession = {
+      userId: 'user-1',
+      wcClient: { request },
+      topic: 'topic-1',
+      address: '0x1111111111111111111111111111111111111111',
+      isActive: true,
+      createdAt: now,
+      updatedAt: now,
+      lastActivity: now
+    };
+    (sdk as any).userSessions.set('user-1', session);
+  });
+
+  // A pending two-call batch the wallet took with wallet_sendCalls
+  function sendBatch(): void {
+    (sdk as any).callBatches.set('batch-1', {
+      userId: 'user-1',
+      chainId: 1,
+      mode: 'wallet_sendCalls',
+      atomic: false,
+      walletBatchId: '0xwallet',
+      calls: [{ index: 0, status: 'pending' }, { index: 1, status: 'pending' }],
+      recordIds: [undefined, undefined]
+    });
+  }
+
+  it('reports a call that reverted on chain as reverted', async () => {
+    sendBatch();
+    request.mockResolvedValue({
+      status: 600,
+      receipts: [
+        { status: '0x1', transactionHash: hash, blockNumber: '0x1' },
+        { status: '0x0', transactionHash: hash, blockNumber: '0x1' }
+      ]
+    });
+
+    const response = await sdk.getCallsStatus('user-1', 'batch-1');
+
+    expect(response.calls?.map(call => call.status)).toEqual(['confirmed', 'reverted']);
+    expect(events.map(event => event.type)).toEqual(['transaction_confirmed', 'transaction_failed']);
+    expect(events[1]?.data).toMatchObject({ hash, batchId: 'batch-1', callIndex: 1, reason: 'reverted' });
+  });
+
+  it('reports a reverted batch without receipts as reverted', async () => {
+    sendBatch();
+    request.mockResolvedValue({ status: 500 });
+
+    await sdk.getCallsStatus('user-1', 'batch-1');
+
+    expect(events.map(event => event.data.reason)).toEqual(['reverted', 'reverted']);
+  });
+
+  it('reports calls that were never included on chain as dropped', async () => {
+    sendBatch();
+    request.mockResolvedValue({ status: 400 });
+
+    const response = await sdk.getCallsStatus('user-1', 'batch-1');
+
+    expect(response.calls?.map(call => call.status)).toEqual(['failed', 'failed']);
+    expect(events.map(event => event.type)).toEqual(['transaction_failed', 'transaction_failed']);
+    expect(events[0]?.data).toMatchObject({ batchId: 'batch-1', callIndex: 0, reason: 'dropped' });
+    expect(events[0]?.data).not.toHaveProperty('hash');
+  });
+
+  it('emits nothing while the batch is pending, and each settled call once', async () => {
+    sendBatch();
+    request.mockResolvedValueOnce({ status: 100 });
+    await sdk.getCallsStatus('user-1', 'batch-1');
+    expect(events).toEqual([]);
+
+    request.mockResolvedValue({ status: 400 });
+    await sdk.getCallsStatus('user-1', 'batch-1');
+    await sdk.getCallsStatus('user-1', 'batch-1');
+    expect(events).toHaveLength(2);
+  });
+});
@@ -0,0 +1,145 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { WalletConnectSDK } from '../../src/core/WalletConnectSDK';
+import { StorageAdapter } from '../../src/types';
+import { SilentLogger } from '../../src/utils/Logger';
+
+// Wallet side of the open proposals, by pairing topic
+const mockProposals = new Map<string, (sessionStruct: any) => void>();
+
+// Like WalletConnect's Store, each client keeps its session map in memory and persists all of it under one
+// key per storage prefix, so clients sharing a prefix overwrite each other's sessions
+jest.mock('@walletconnect/sign-client', () => {
+  class MockSignClient {
+    private sessions = new Map<string, any>();
+    readonly core = { relayer: { transportClose: async () => undefined } };
+
+    constructor(private storage: StorageAdapter, private storageKey: string) {}
+
+    static async init(options: { storage: StorageAdapter; customStoragePrefix?: string }): Promise<MockSignClient> {
+      const client = new MockSignClient(options.storage, `wc@2:client:0.3${options.customStoragePrefix || ''}//session`);
+      const persisted = await options.storage.getItem<any[]>(client.storageKey);
+      for (const sessionStruct of persisted || []) {
+        client.sessions.set(sessionStruct.topic, sessionStruct);
+      }
+      return client;
+    }
+
+    get session() {
+      return { keys: Array.from(this.sessions.keys()) };
+    }
+
+    on(): void {}
+
+    async connect(): Promise<{ uri: string; approval: () => Promise<any> }> {
+      const pairingTopic = `pairing-${mockProposals.size + 1}`;
+      const approved = new Promise<any>(resolve => mockProposals.set(pairingTopic, resolve));
+
+      return {
+        uri: `wc:${pairingTopic}@2?relay-protocol=irn&symKey=${'0'.repeat(64)}`,
+        approval: async () => {
+          const sessionStruct = await approved;
+          this.sessions.set(sessionStruct.topic, sessionStruct);
+          await this.storage.setItem(this.storageKey, Array.from(this.sessions.values()));
+          return sessionStruct;
+        }
+      };
+    }
+  }
+
+  return { SignClient: MockSignClient };
+});
+
+class MapStorage implements StorageAdapter {
+  items = new Map<string, any>();
+
+  async getItem<T = string>(key: string): Promise<T | undefined> {
+    return this.items.get(key);
+  }
+
+  async setItem<T = string>(key: string, value: T): Promise<void> {
+    this.items.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async getKeys(): Promise<string[]> {
+    return Array.from(this.items.keys());
+  }
+
+  async getEntries<T = string>(): Promise<[string, T][]> {
+    return Array.from(this.items.entries());
+  }
+}
+
+function sessionStruct(pairingTopic: string, address: string): any {
+  return {
+    topic: `session-${pairingTopic}`,
+    pairingTopic,
+    expiry: Math.floor(Date.now() / 1000) + 7 * 24 * 60 * 60,
+    namespaces: {
+      eip155: {
+        chains: ['eip155:1'],
+        accounts: [`eip155:1:${address}`],
+        methods: ['personal_sign'],
+        events: ['chainChanged']
+      }
+    }
+  };
+}
+
+describe('session restore after a restart', () => {
+  let directory: string;
+  let storage: MapStorage;
+
+  const createSDK = () => new WalletConnectSDK({
+    projectId: 'test-project',
+    storage,
+    database: { type: 'sqlite', databasePath: join(directory, 'sessions.db') },
+    logger: new SilentLogger()
+  });
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'walletconnect-sdk-'));
+    storage = new MapStorage();
+    mockProposals.clear();
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('restores the sessions of users that connected at the same time', async () => {
+    const users = {
+      alice: '0x1111111111111111111111111111111111111111',
+      bob: '0x2222222222222222222222222222222222222222'
+    };
+
+    const sdk = createSDK();
+    await sdk.init();
+    await sdk.connect({ userId: 'alice' });
+    await sdk.connect({ userId: 'bob' });
+
+    // Both proposals are open before either wallet approves
+    mockProposals.get('pairing-1')!(sessionStruct('pairing-1', users.alice));
+    mockProposals.get('pairing-2')!(sessionStruct('pairing-2', users.bob));
+    await Promise.all([sdk.waitForApproval('alice'), sdk.waitForApproval('bob')]);
+
+    // Sessions are saved in the background
+    const database = (sdk as any).database;
+    while (!(await database.getSession('alice'))?.isActive || !(await database.getSession('bob'))?.isActive) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    await sdk.destroy();
+
+    const restarted = createSDK();
+    await restarted.init();
+
+    expect(await restarted.getSession('alice')).toMatchObject({ topic: 'session-pairing-1', address: users.alice });
+    expect(await restarted.getSession('bob')).toMatchObject({ topic: 'session-pairing-2', address: users.bob });
+    await restarted.destroy();
+  });
+});
@@ -0,0 +1,113 @@
+import { createSiweMessage } from 'viem/siwe';
+import { WalletConnectSDK } from '../../src/core/WalletConnectSDK';
+import { StorageAdapter } from '../../src/types';
+import { SilentLogger } from '../../src/utils/Logger';
+
+class RecordingStorage implements StorageAdapter {
+  items = new Map<string, any>();
+  ttls = new Map<string, number | undefined>();
+
+  async getItem<T = string>(key: string): Promise<T | undefined> {
+    return this.items.get(key);
+  }
+
+  async setItem<T = string>(key: string, value: T, ttl?: number): Promise<void> {
+    this.items.set(key, value);
+    this.ttls.set(key, ttl);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.items.delete(key);
+  }
+
+  async getKeys(): Promise<string[]> {
+    return Array.from(this.items.keys());
+  }
+
+  async getEntries<T = string>(): Promise<[string, T][]> {
+    return Array.from(this.items.entries());
+  }
+}
+
+const address = '0x1111111111111111111111111111111111111111';
+const signature = '0xdeadbeef';
+const nonce = 'abcdefgh12345678';
+
+function siweMessage(): string {
+  return createSiweMessage({
+    address,
+    chainId: 1,
+    domain: 'example.com',
+    uri: 'https://example.com/login',
+    nonce,
+    issuedAt: new Date(),
+    expirationTime: new Date(Date.now() + 60_000),
+    version: '1'
+  });
+}
+
+describe('Sign-In with Ethereum nonces', () => {
+  let storage: RecordingStorage;
+  let sdk: WalletConnectSDK;
+  let verifySiweMessage: jest.Mock;
+
+  beforeEach(async () => {
+    storage = new RecordingStorage();
+    sdk = new WalletConnectSDK({
+      projectId: 'test-project',
+      storage,
+      logger: new SilentLogger()
+    });
+
+    // Signature checks need an RPC, the nonce handling does not
+    verifySiweMessage = jest.fn().mockResolvedValue(true);
+    jest.spyOn(sdk as any, 'getPublicClient').mockReturnValue({ verifySiweMessage });
+
+    await storage.setItem(`siwe-nonce:${nonce}`, {
+      userId: 'user-1',
+      domain: 'example.com',
+      expiresAt: Date.now() + 60_000
+    }, 60);
+  });
+
+  it('accepts a signature once and rejects its replay', async () => {
+    const message = siweMessage();
+
+    const first = await sdk.verifySiwe(message, signature, 'user-1');
+    expect(first.success).toBe(true);
+    expect(first.identity).toMatchObject({ userId: 'user-1', address, nonce });
+
+    const replay = await sdk.verifySiwe(message, signature, 'user-1');
+    expect(replay).toEqual({ success: false, error: 'Unknown or already used SIWE nonce' });
+    expect(verifySiweMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not consume the nonce for another user', async () => {
+    const message = siweMessage();
+
+    const stolen = await sdk.verifySiwe(message, signature, 'user-2');
+    expect(stolen).toEqual({ success: false, error: 'SIWE nonce was not issued to user user-2' });
+    expect(storage.items.has(`siwe-nonce:${nonce}`)).toBe(true);
+
+    const owner = await sdk.verifySiwe(message, signature, 'user-1');
+    expect(owner.success).toBe(true);
+  });
+
+  it('consumes the nonce even when the signature is invalid', async () => {
+    verifySiweMessage.mockResolvedValue(false);
+
+    const result = await sdk.verifySiwe(siweMessage(), signature, 'user-1');
+    expect(result).toEqual({ success: false, error: 'SIWE signature verification failed' });
+    expect(storage.items.has(`siwe-nonce:${nonce}`)).toBe(false);
+  });
+
+  it('stores issued nonces with a TTL matching the message expiry', async () => {
+    await (sdk as any).storeSiweNonce('siwe-nonce:other', {
+      userId: 'user-1',
+      domain: 'example.com',
+      expiresAt: Date.now() + 10 * 60 * 1000
+    });
+
+    expect(storage.ttls.get('siwe-nonce:other')).toBe(600);
+  });
+});
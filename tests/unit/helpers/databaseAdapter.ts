@@ -0,0 +1,99 @@
+import { TransactionRecord, UserSession } from '../../../src/types';
+import { DatabaseAdapter } from '../../../src/types/database';
+
+export function makeSession(overrides: Partial<UserSession> = {}): UserSession {
+  const now = new Date('2026-01-01T00:00:00.000Z');
+  return {
+    userId: 'user-1',
+    wcClient: null,
+    topic: 'topic-1',
+    address: '0x1111111111111111111111111111111111111111',
+    isActive: true,
+    createdAt: now,
+    updatedAt: now,
+    lastActivity: now,
+    ...overrides
+  };
+}
+
+export function makeRecord(overrides: Partial<TransactionRecord> = {}): TransactionRecord {
+  const now = new Date('2026-01-01T00:00:00.000Z');
+  return {
+    id: 'record-1',
+    userId: 'user-1',
+    type: 'transaction',
+    chainId: 1,
+    request: { to: '0x2222222222222222222222222222222222222222', value: '1000' },
+    status: 'pending',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides
+  };
+}
+
+// The save and restore behaviour every DatabaseAdapter shares. `connect` returns a connected adapter
+export function describeAdapterRoundTrip(connect: () => Promise<DatabaseAdapter>): void {
+  let db: DatabaseAdapter;
+
+  beforeEach(async () => {
+    db = await connect();
+  });
+
+  afterEach(async () => {
+    await db.disconnect();
+  });
+
+  it('restores a saved session', async () => {
+    const session = makeSession({ activeChainId: 137 });
+    await db.saveSession(session);
+
+    const restored = await db.getSession('user-1');
+    expect(restored).toMatchObject({
+      userId: 'user-1',
+      topic: 'topic-1',
+      address: session.address,
+      isActive: true,
+      activeChainId: 137,
+      createdAt: session.createdAt,
+      lastActivity: session.lastActivity
+    });
+  });
+
+  it('leaves activeChainId unset when the session has none', async () => {
+    await db.saveSession(makeSession());
+
+    const restored = await db.getSession('user-1');
+    expect(restored).not.toBeNull();
+    expect(restored).not.toHaveProperty('activeChainId');
+  });
+
+  it('overwrites a session saved again', async () => {
+    await db.saveSession(makeSession({ activeChainId: 1 }));
+    await db.saveSession(makeSession({ activeChainId: 10, topic: 'topic-2' }));
+
+    expect(await db.getSession('user-1')).toMatchObject({ topic: 'topic-2', activeChainId: 10 });
+  });
+
+  it('deletes a session', async () => {
+    await db.saveSession(makeSession());
+    await db.deleteSession('user-1');
+
+    expect(await db.getSession('user-1')).toBeNull();
+  });
+
+  it('records and updates transaction history', async () => {
+    await db.saveTransactionRecord(makeRecord());
+    await db.updateTransactionRecord('record-1', { status: 'confirmed', hash: '0xabc' });
+
+    const history = await db.getTransactionHistory('user-1');
+    expect(history.total).toBe(1);
+    expect(history.data[0]).toMatchObject({
+      id: 'record-1',
+      type: 'transaction',
+      chainId: 1,
+      request: makeRecord().request,
+      status: 'confirmed',
+      hash: '0xabc'
+    });
+  });
+}